@@ -0,0 +1,272 @@
+/**
+ * Background polling for new grades. Every `intervalMinutes` the grades
+ * pages the user has already visited are fetched with their USOSweb
+ * session, diffed against the stored snapshot (~lib/changes) and new or
+ * changed grades are announced with a notification – without values
+ * unless the user opted in. Pages are still checked during quiet hours;
+ * what they find is queued and announced by the first poll after.
+ */
+
+import iconUrl from "data-base64:~assets/icon.png";
+
+import { describeChange, trackGradeChanges } from "~lib/changes";
+import { getWezId, parseGradePage, type TreeGrade } from "~lib/grade-tree";
+import { parseProfileKey, parseSubjectKey, profileKey } from "~lib/profiles";
+import {
+  CHANGES_KEY_PREFIX,
+  isUsosPageUrl,
+  NOTIFICATION_SETTINGS_KEY,
+  parseChangeLog,
+  parseNotificationSettings,
+  parseStatistics,
+  STATISTICS_STORAGE_KEY,
+  type GradeChange,
+  type NotificationSettings,
+  type SubjectChangeLog,
+} from "~lib/schema";
+
+const POLL_ALARM = "better-usos-poll";
+/** Notification ids carry the page to open when clicked */
+const NOTIFICATION_PREFIX = "better-usos-grades|";
+const OFFSCREEN_URL = "tabs/offscreen.html";
+/** Changes found during quiet hours, one change log per grades page */
+const QUEUE_KEY = "better-usos-queued-notifications";
+
+interface KnownPage {
+  wezId: string;
+  /** USOSweb hostname: the profile the page's snapshot belongs to */
+  host: string;
+  url: string;
+  subject: string;
+}
+
+async function loadSettings(): Promise<NotificationSettings> {
+  if (!chrome.storage.sync) return parseNotificationSettings(undefined);
+  const res = await chrome.storage.sync.get(NOTIFICATION_SETTINGS_KEY);
+  return parseNotificationSettings(res[NOTIFICATION_SETTINGS_KEY]);
+}
+
+async function schedulePolling(): Promise<void> {
+  const settings = await loadSettings();
+  await chrome.alarms.clear(POLL_ALARM);
+  if (settings.enabled) {
+    chrome.alarms.create(POLL_ALARM, {
+      periodInMinutes: settings.intervalMinutes,
+    });
+  } else {
+    await chrome.storage.local.remove(QUEUE_KEY);
+  }
+}
+
+function isQuietTime(settings: NotificationSettings, now: Date): boolean {
+  const { quietHours, quietFrom, quietTo } = settings;
+  if (!quietHours || quietFrom === quietTo) return false;
+  const hour = now.getHours();
+  return quietFrom < quietTo
+    ? hour >= quietFrom && hour < quietTo
+    : hour >= quietFrom || hour < quietTo;
+}
+
+/**
+ * Grades pages known from earlier visits: the subject pages recorded in
+ * the change logs plus the pages of DEFEATED/FAILED entries of every
+ * university.
+ */
+async function getKnownPages(): Promise<KnownPage[]> {
+  const all = await chrome.storage.local.get(null);
+  // Keyed by host and wez_id: universities reuse wez_ids
+  const pages = new Map<string, KnownPage>();
+  const add = (url: string, subject: string): void => {
+    if (!isUsosPageUrl(url)) return;
+    const wezId = getWezId(url);
+    const host = new URL(url).hostname;
+    if (!wezId || pages.has(`${host}|${wezId}`)) return;
+    pages.set(`${host}|${wezId}`, { wezId, host, url, subject });
+  };
+  for (const [key, value] of Object.entries(all)) {
+    if (!parseSubjectKey(key, CHANGES_KEY_PREFIX)) continue;
+    const log = parseChangeLog(value, key, []);
+    if (log) add(log.url, log.subject);
+  }
+  // Statistics of every university profile
+  for (const [key, value] of Object.entries(all)) {
+    if (parseProfileKey(key)?.key !== STATISTICS_STORAGE_KEY) continue;
+    const stats = parseStatistics(value, []);
+    for (const entry of [
+      ...(stats?.defeatedEntries ?? []),
+      ...(stats?.failEntries ?? []),
+    ]) {
+      add(entry.url, entry.subject);
+    }
+  }
+  return Array.from(pages.values());
+}
+
+/**
+ * Chrome's service worker has no DOMParser, so pages are parsed in an
+ * offscreen document there; Firefox's background page parses directly.
+ */
+async function parseGradeHtml(
+  html: string,
+  wezId: string,
+): Promise<TreeGrade[] | null> {
+  if (typeof DOMParser !== "undefined") return parseGradePage(html, wezId);
+  const url = chrome.runtime.getURL(OFFSCREEN_URL);
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [url],
+  });
+  if (contexts.length === 0) {
+    await chrome.offscreen.createDocument({
+      url,
+      reasons: [chrome.offscreen.Reason.DOM_PARSER],
+      justification: "Parse fetched USOSweb grade pages",
+    });
+  }
+  return chrome.runtime.sendMessage({ type: "PARSE_GRADE_PAGE", html, wezId });
+}
+
+function isMuted(muted: Set<string>, wezId: string, host: string): boolean {
+  // Muted subjects used to be stored by wez_id alone
+  return muted.has(profileKey(wezId, host)) || muted.has(wezId);
+}
+
+function notify(
+  page: Pick<KnownPage, "url" | "subject">,
+  changes: GradeChange[],
+  settings: NotificationSettings,
+): void {
+  const lines = changes.map((change) => {
+    const label = change.kind === "new" ? "Nowa ocena" : "Zmieniona ocena";
+    return settings.showValues
+      ? `${label}: ${change.name} (${describeChange(change)})`
+      : `${label}: ${change.name}`;
+  });
+  chrome.notifications.create(NOTIFICATION_PREFIX + page.url, {
+    type: "basic",
+    iconUrl,
+    title: page.subject || "Better USOS",
+    message: lines.join("\n"),
+  });
+}
+
+async function loadQueue(): Promise<SubjectChangeLog[]> {
+  const res = await chrome.storage.local.get(QUEUE_KEY);
+  const raw = res[QUEUE_KEY];
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((item, i) => parseChangeLog(item, `${QUEUE_KEY}[${i}]`, []))
+    .filter((log): log is SubjectChangeLog => !!log && log.url !== "");
+}
+
+/**
+ * Hold `changes` until quiet hours end. A grade changed twice in the
+ * meantime is announced once, from its first old value to its last one.
+ */
+async function queueChanges(
+  page: KnownPage,
+  changes: GradeChange[],
+): Promise<void> {
+  const queue = await loadQueue();
+  let log = queue.find((queued) => queued.url === page.url);
+  if (!log) {
+    log = { subject: page.subject, url: page.url, entries: [] };
+    queue.push(log);
+  }
+  for (const change of changes) {
+    const i = log.entries.findIndex((queued) => queued.id === change.id);
+    if (i < 0) {
+      log.entries.push(change);
+      continue;
+    }
+    const { kind, oldValue, oldMax } = log.entries[i];
+    log.entries[i] = { ...change, kind, oldValue, oldMax };
+  }
+  await chrome.storage.local.set({ [QUEUE_KEY]: queue });
+}
+
+/** Announce what was queued during quiet hours, skipping muted subjects */
+async function flushQueue(
+  settings: NotificationSettings,
+  muted: Set<string>,
+): Promise<void> {
+  const queue = await loadQueue();
+  if (queue.length === 0) return;
+  await chrome.storage.local.remove(QUEUE_KEY);
+  for (const log of queue) {
+    const wezId = getWezId(log.url);
+    if (wezId && isMuted(muted, wezId, new URL(log.url).hostname)) continue;
+    if (log.entries.length > 0) notify(log, log.entries, settings);
+  }
+}
+
+async function checkPage(
+  page: KnownPage,
+  settings: NotificationSettings,
+  quiet: boolean,
+): Promise<void> {
+  const res = await fetch(page.url, { credentials: "include" });
+  if (!res.ok) return;
+  const nodes = await parseGradeHtml(await res.text(), page.wezId);
+  // No tree: logged out or the page is gone – keep the old snapshot
+  if (!nodes || nodes.length === 0) return;
+  const changes = await trackGradeChanges(
+    page.wezId,
+    page.host,
+    page.subject,
+    page.url,
+    nodes,
+    "poller",
+  );
+  if (changes.size === 0) return;
+  if (quiet) await queueChanges(page, Array.from(changes.values()));
+  else notify(page, Array.from(changes.values()), settings);
+}
+
+async function pollGrades(): Promise<void> {
+  const settings = await loadSettings();
+  if (!settings.enabled) return;
+  const quiet = isQuietTime(settings, new Date());
+  const muted = new Set(settings.muted);
+  if (!quiet) await flushQueue(settings, muted);
+  for (const page of await getKnownPages()) {
+    if (isMuted(muted, page.wezId, page.host)) continue;
+    try {
+      await checkPage(page, settings, quiet);
+    } catch (err) {
+      console.warn(`[Better USOS] polling ${page.url} failed:`, err);
+    }
+  }
+  if (typeof DOMParser === "undefined") {
+    chrome.offscreen.closeDocument().catch(() => {
+      /* not open */
+    });
+  }
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== POLL_ALARM) return;
+  pollGrades().catch((err) =>
+    console.warn("[Better USOS] grade polling error:", err),
+  );
+});
+
+chrome.runtime.onInstalled.addListener(() => {
+  schedulePolling();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  schedulePolling();
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === "sync" && NOTIFICATION_SETTINGS_KEY in changes) {
+    schedulePolling();
+  }
+});
+
+chrome.notifications.onClicked.addListener((id) => {
+  if (!id.startsWith(NOTIFICATION_PREFIX)) return;
+  chrome.tabs.create({ url: id.slice(NOTIFICATION_PREFIX.length) });
+  chrome.notifications.clear(id);
+});
@@ -1,10 +1,128 @@
 import type { PlasmoCSConfig } from "plasmo";
 
+import {
+  ACHIEVEMENT_RULES,
+  checkAchievements,
+  loadAchievements,
+} from "~lib/achievements";
+import { describeChange, trackGradeChanges } from "~lib/changes";
+import { exportData } from "~lib/export";
+import {
+  assignGradeIds,
+  getRowName,
+  parseRowMax,
+  readGradeValue,
+  type TreeGrade,
+} from "~lib/grade-tree";
+import { migrateLocalCaches, runMigrations } from "~lib/migrations";
+import {
+  dashboardKey,
+  isUsosHost,
+  parseSubjectKey,
+  revealKey,
+  statisticsKey,
+  subjectKey,
+} from "~lib/profiles";
+import { createRng, pick, randomBetween, type Rng } from "~lib/rng";
+import {
+  CHANGES_KEY_PREFIX,
+  DEFAULT_HISTOGRAM_BINS,
+  COSMETIC_CATEGORIES,
+  DEFAULT_REVEAL_MODE,
+  DEFAULT_THEME_SCHEDULE,
+  EMPTY_SHOP,
+  EMPTY_STATS,
+  EMPTY_STREAK,
+  HISTOGRAM_BINS,
+  isRevealMode,
+  isThemeId,
+  parseChangeLog,
+  parseCustomTheme,
+  parseDashboardState,
+  parseLoginStreak,
+  parseRevealOverrides,
+  parseRevealSet,
+  parseStatistics,
+  parseSubjectSummary,
+  parseThemeSchedule,
+  parseThresholds,
+  parseWeights,
+  PASSING_GRADES,
+  SPAN_OPTIONS,
+  REVEAL_LOG_LIMIT,
+  REVEAL_MODE_LABELS,
+  REVEAL_MODES,
+  SETTINGS_STORAGE_KEY,
+  SPIN_LOG_LIMIT,
+  STREAK_STORAGE_KEY,
+  SUMMARY_KEY_PREFIX,
+  THRESHOLDS_KEY_PREFIX,
+  WEIGHTS_KEY_PREFIX,
+  type BuiltinThemeId,
+  type CosmeticCategory,
+  type CustomTheme,
+  type DashboardState,
+  type GradeChange,
+  type GradeEntry,
+  type GradeStatistics,
+  type GradeThreshold,
+  type LoginStreak,
+  type RevealEvent,
+  type RevealId,
+  type RevealMode,
+  type ShopState,
+  type SpanValue,
+  type SpinRecord,
+  type SubjectChangeLog,
+  type SubjectSummary,
+  type ThemeId,
+  type ThemeSchedule,
+} from "~lib/schema";
+import {
+  isCustomElementTag,
+  shadowStylesFor,
+  type ShadowStyle,
+} from "~lib/shadow-styles";
+import {
+  CATEGORY_LABELS,
+  equip,
+  equippedValue,
+  loadShopState,
+  purchase,
+  saveShopState,
+  SHOP_ITEMS,
+} from "~lib/shop";
+import {
+  getReelSet,
+  JACKPOT_MIN,
+  payoutDistribution,
+  SLOT_EMOJIS,
+  slotPayout,
+  spinOutcome,
+  symbolPayout,
+} from "~lib/slots";
+import {
+  claimDay,
+  loadStreak,
+  recordVisit,
+  saveStreak,
+  STREAK_TIME_ZONE,
+  streakReward,
+  warsawDay,
+} from "~lib/streaks";
+import {
+  basePalette,
+  loadCustomThemes,
+  resolveThemeMode,
+  themePalette,
+  type Palette,
+} from "~lib/themes";
+
 export const config: PlasmoCSConfig = {
   matches: ["https://*.edu.pl/*"],
   run_at: "document_idle",
 };
-if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
+if (isUsosHost(location.hostname)) {
   const link = document.createElement("link");
   link.rel = "stylesheet";
   link.href = chrome.runtime.getURL("style.css");
@@ -27,52 +145,47 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     (document.head || document.documentElement).appendChild(style);
   }
 
-  const DASHBOARD_STORAGE_KEY = "better-usos-dashboard";
-  const STATISTICS_STORAGE_KEY = "better-usos-statistics";
+  /** Dashboard, statistics and per-subject data are kept per university */
+  const PROFILE_HOST = location.hostname;
+
   const THEME_CACHE_KEY = "better-usos-theme-cache";
+
+  /** A custom theme id is only usable together with its cached theme */
+  function isThemeCache(value: unknown): boolean {
+    if (!value || typeof value !== "object") return false;
+    const { themeId, custom } = value as {
+      themeId?: unknown;
+      custom?: unknown;
+    };
+    if (!isThemeId(themeId)) return false;
+    if (!themeId.startsWith("custom:")) return true;
+    return parseCustomTheme(custom, THEME_CACHE_KEY, [])?.id === themeId;
+  }
   const BANNER_CACHE_KEY = "better-usos-banner-cache";
   const ENABLED_CACHE_KEY = "better-usos-enabled";
 
-  type PaletteId = "light" | "dark";
-
   interface BetterUsosSettings {
     enabled?: boolean;
     showBanner?: boolean;
-    themeId?: PaletteId;
+    themeId?: ThemeId;
+    themeSchedule?: ThemeSchedule;
+    histogramBins?: number;
+    revealMode?: RevealMode;
+    /** wez_id -> reveal mode overriding revealMode for that subject */
+    revealOverrides?: Record<string, RevealMode>;
+    /** No coins, slot machine, shop, confetti or Dark Souls overlays */
+    seriousMode?: boolean;
   }
 
-  interface GradeEntry {
-    name: string;
-    subject: string;
-    value: number;
-    max: number | null;
-    date: number;
-    url: string;
-  }
+  /** Randomness of the slot machine and confetti (see ~lib/rng) */
+  const effectsRng: Rng = createRng();
 
-  interface GradeStatistics {
-    defeatedCount: number;
-    failCount: number;
-    revealedCount: number;
-    totalGrades: number;
-    lastUpdated: number;
-    defeatedEntries: GradeEntry[];
-    failEntries: GradeEntry[];
-    coins: number;
-    lastFreeSpin: number;
-  }
-
-  const EMPTY_STATS: GradeStatistics = {
-    defeatedCount: 0,
-    failCount: 0,
-    revealedCount: 0,
-    totalGrades: 0,
-    lastUpdated: 0,
-    defeatedEntries: [],
-    failEntries: [],
-    coins: 0,
-    lastFreeSpin: 0,
-  };
+  /** Read once per page load; toggling it reloads the page */
+  let seriousMode = false;
+
+  async function initSeriousMode(): Promise<void> {
+    seriousMode = (await loadSyncSettings()).seriousMode === true;
+  }
 
   /** In-memory stats cache (loaded once from chrome.storage.local) */
   let _statsCache: GradeStatistics = { ...EMPTY_STATS };
@@ -86,7 +199,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     stats.lastUpdated = Date.now();
     _statsCache = { ...stats };
     try {
-      chrome.storage.local.set({ [STATISTICS_STORAGE_KEY]: stats });
+      chrome.storage.local.set({ [statisticsKey(PROFILE_HOST)]: stats });
     } catch {
       // ignore
     }
@@ -94,10 +207,16 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
   async function initStatsCache(): Promise<void> {
     try {
-      const res = await chrome.storage.local.get(STATISTICS_STORAGE_KEY);
-      const parsed = res[STATISTICS_STORAGE_KEY];
-      if (parsed && typeof parsed === "object") {
-        _statsCache = { ...EMPTY_STATS, ...parsed } as GradeStatistics;
+      const key = statisticsKey(PROFILE_HOST);
+      const res = await chrome.storage.local.get(key);
+      const raw = res[key];
+      if (raw !== undefined) {
+        const errors: string[] = [];
+        const parsed = parseStatistics(raw, errors);
+        if (errors.length > 0) {
+          console.warn("[Better USOS] invalid statistics in storage:", errors);
+        }
+        if (parsed) _statsCache = parsed;
       }
     } catch {
       /* ignore */
@@ -105,6 +224,18 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     _statsCacheReady = true;
   }
 
+  /** Coin shop state (loaded once from chrome.storage.local) */
+  let _shopCache: ShopState = { ...EMPTY_SHOP, equipped: {} };
+
+  async function initShopCache(): Promise<void> {
+    try {
+      _shopCache = await loadShopState();
+    } catch {
+      /* ignore */
+    }
+    applyCosmetics();
+  }
+
   function updateStatistic(
     key: "defeatedCount" | "failCount" | "revealedCount" | "coins",
     increment: number = 1,
@@ -117,6 +248,12 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     refreshCoinDisplay();
   }
 
+  /** Pay out reward coins; serious mode has no coins to earn */
+  function earnCoins(amount: number = 1): void {
+    if (seriousMode) return;
+    updateStatistic("coins", amount);
+  }
+
   function addGradeEntry(type: "defeated" | "fail", entry: GradeEntry): void {
     const stats = loadStatistics();
     const list =
@@ -125,16 +262,151 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     saveStatistics(stats);
   }
 
+  function addRevealEvent(event: RevealEvent): void {
+    const stats = loadStatistics();
+    stats.revealLog = [...stats.revealLog, event].slice(-REVEAL_LOG_LIMIT);
+    saveStatistics(stats);
+  }
+
+  function addSpinRecord(spin: SpinRecord): void {
+    const stats = loadStatistics();
+    stats.spinLog = [...stats.spinLog, spin].slice(-SPIN_LOG_LIMIT);
+    saveStatistics(stats);
+  }
+
   function setTotalGrades(total: number): void {
     const stats = loadStatistics();
     stats.totalGrades = Math.max(stats.totalGrades, total);
     saveStatistics(stats);
   }
 
+  /**
+   * Semester scope of the stats panel and modal: "all", "sem:<code>" or
+   * "year:<start year>". Scoped counts come from the entry lists and the
+   * reveal log, as the global counters are not split by semester.
+   */
+  let statsScope = "all";
+
+  /** "2025Z" → "Semestr zimowy 2025/2026", "2026L" → "Semestr letni 2025/2026" */
+  function semesterLabel(code: string): string {
+    const match = code.match(/^(\d{4})([ZL])$/i);
+    if (!match) return code || "Inny semestr";
+    const year = parseInt(match[1], 10);
+    const season = match[2].toUpperCase();
+    if (season === "Z") return `Semestr zimowy ${year}/${year + 1}`;
+    return `Semestr letni ${year - 1}/${year}`;
+  }
+
+  /** Start year of the academic year a semester code belongs to */
+  function academicYearOf(code: string): number | null {
+    const match = code.match(/^(\d{4})([ZL])$/i);
+    if (!match) return null;
+    const year = parseInt(match[1], 10);
+    return match[2].toUpperCase() === "Z" ? year : year - 1;
+  }
+
+  function inStatsScope(semester: string | null): boolean {
+    if (statsScope === "all") return true;
+    if (!semester) return false;
+    if (statsScope.startsWith("sem:")) {
+      return semester.toUpperCase() === statsScope.slice("sem:".length);
+    }
+    return (
+      String(academicYearOf(semester)) === statsScope.slice("year:".length)
+    );
+  }
+
+  function statsScopeLabel(): string {
+    if (statsScope.startsWith("sem:")) {
+      return semesterLabel(statsScope.slice("sem:".length));
+    }
+    if (statsScope.startsWith("year:")) {
+      const year = parseInt(statsScope.slice("year:".length), 10);
+      return `Rok akademicki ${year}/${year + 1}`;
+    }
+    return "Wszystkie semestry";
+  }
+
+  /** Statistics narrowed to the selected semester scope */
+  function scopedStatistics(stats: GradeStatistics): GradeStatistics {
+    if (statsScope === "all") return stats;
+    const defeatedEntries = stats.defeatedEntries.filter((e) =>
+      inStatsScope(e.semester),
+    );
+    const failEntries = stats.failEntries.filter((e) =>
+      inStatsScope(e.semester),
+    );
+    const revealLog = stats.revealLog.filter((e) => inStatsScope(e.semester));
+    return {
+      ...stats,
+      defeatedEntries,
+      failEntries,
+      revealLog,
+      defeatedCount: defeatedEntries.length,
+      failCount: failEntries.length,
+      revealedCount: revealLog.length,
+    };
+  }
+
+  /** Scope selector for the stats panel header, built from the known semesters */
+  function buildStatsScopeSelect(stats: GradeStatistics): HTMLSelectElement {
+    const codes = new Set<string>();
+    for (const e of [
+      ...stats.defeatedEntries,
+      ...stats.failEntries,
+      ...stats.revealLog,
+    ]) {
+      if (e.semester) codes.add(e.semester.toUpperCase());
+    }
+    const sorted = Array.from(codes).sort().reverse();
+    const years = Array.from(
+      new Set(
+        sorted.map(academicYearOf).filter((y): y is number => y !== null),
+      ),
+    );
+
+    const select = document.createElement("select");
+    select.className = "bu-stats-scope";
+    select.title = "Zakres statystyk";
+    const addOption = (
+      parent: HTMLElement,
+      value: string,
+      label: string,
+    ): void => {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      parent.appendChild(opt);
+    };
+    addOption(select, "all", "Wszystkie semestry");
+    if (years.length > 0) {
+      const group = document.createElement("optgroup");
+      group.label = "Rok akademicki";
+      for (const year of years) {
+        addOption(group, `year:${year}`, `${year}/${year + 1}`);
+      }
+      select.appendChild(group);
+    }
+    if (sorted.length > 0) {
+      const group = document.createElement("optgroup");
+      group.label = "Semestr";
+      for (const code of sorted) {
+        addOption(group, `sem:${code}`, semesterLabel(code));
+      }
+      select.appendChild(group);
+    }
+    select.value = statsScope;
+    select.addEventListener("change", () => {
+      statsScope = select.value;
+      refreshStatisticsPanel();
+    });
+    return select;
+  }
+
   function refreshStatisticsPanel(): void {
     const panel = document.querySelector("#bu-stats-panel-content");
     if (!panel) return;
-    const stats = loadStatistics();
+    const stats = scopedStatistics(loadStatistics());
     while (panel.firstChild) panel.removeChild(panel.firstChild);
     const statsHtml = buildStatsPanelHTML(stats);
     // Safe: buildStatsPanelHTML używa escapeHTML na wszystkich dynamicznych danych
@@ -142,22 +414,158 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     attachStatCardListeners(panel);
   }
 
-  function hasFreeSpinToday(): boolean {
-    const stats = loadStatistics();
-    if (!stats.lastFreeSpin) return true;
-    const last = new Date(stats.lastFreeSpin);
-    const now = new Date();
-    return (
-      last.getFullYear() !== now.getFullYear() ||
-      last.getMonth() !== now.getMonth() ||
-      last.getDate() !== now.getDate()
+  /** Login streak (loaded once from chrome.storage.local) */
+  let _streakCache: LoginStreak = { ...EMPTY_STREAK };
+
+  async function initStreakCache(): Promise<void> {
+    try {
+      _streakCache = await loadStreak();
+    } catch {
+      /* ignore */
+    }
+    // The streak is shared by every profile: follow claims made in other tabs
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area !== "local" || !(STREAK_STORAGE_KEY in changes)) return;
+      const next = parseLoginStreak(
+        changes[STREAK_STORAGE_KEY].newValue,
+        STREAK_STORAGE_KEY,
+        [],
+      );
+      if (!next) return;
+      _streakCache = next;
+      refreshStreakDisplay();
+    });
+  }
+
+  function saveStreakCache(streak: LoginStreak): void {
+    _streakCache = streak;
+    saveStreak(streak).catch((err) =>
+      console.warn("[Better USOS] streak save error:", err),
     );
   }
 
-  function useFreeSpinToday(): void {
-    const stats = loadStatistics();
-    stats.lastFreeSpin = Date.now();
-    saveStatistics(stats);
+  /**
+   * Count today's visit and pay out the streak reward once per day. The
+   * streak is global, so its coins go to the profile of the university
+   * opened first that day. Serious mode still counts the visit but pays
+   * neither coins nor bonus spins.
+   */
+  function recordDailyVisit(): void {
+    const { streak, reward } = recordVisit(_streakCache, warsawDay(Date.now()));
+    if (!reward) return;
+    if (seriousMode) {
+      saveStreakCache({ ...streak, bonusSpins: _streakCache.bonusSpins });
+      return;
+    }
+    saveStreakCache(streak);
+    if (reward.coins > 0) earnCoins(reward.coins);
+  }
+
+  /**
+   * One daily free spin for all universities, claimed in the shared streak
+   * record; it resets at midnight Polish time
+   */
+  function hasFreeSpinToday(): boolean {
+    return !_streakCache.claimed.includes(warsawDay(Date.now()));
+  }
+
+  /** Daily free spin or a streak bonus spin */
+  function hasFreeSpin(): boolean {
+    return hasFreeSpinToday() || _streakCache.bonusSpins > 0;
+  }
+
+  /** Use the daily free spin if still there, otherwise a bonus spin */
+  function useFreeSpin(): void {
+    if (hasFreeSpinToday()) {
+      saveStreakCache(claimDay(_streakCache, warsawDay(Date.now())));
+    } else if (_streakCache.bonusSpins > 0) {
+      saveStreakCache({
+        ..._streakCache,
+        bonusSpins: _streakCache.bonusSpins - 1,
+      });
+    }
+  }
+
+  function refreshStreakDisplay(): void {
+    const el = document.querySelector("#bu-slot-streak");
+    if (!el) return;
+    const { current, bonusSpins } = _streakCache;
+    const bonus = bonusSpins > 0 ? ` · darmowe spiny: ${bonusSpins}` : "";
+    el.textContent = `🔥 ${current} ${current === 1 ? "dzień" : "dni"} z rzędu${bonus}`;
+  }
+
+  /** Month grid of visited and claimed days, Polish time */
+  function renderStreakCalendar(panel: HTMLElement): void {
+    while (panel.firstChild) panel.removeChild(panel.firstChild);
+    const streak = _streakCache;
+    const today = warsawDay(Date.now());
+    const [year, month] = today.split("-").map(Number);
+
+    const head = document.createElement("div");
+    head.className = "bu-slot-paytable-head";
+    const heading = document.createElement("span");
+    heading.textContent = new Intl.DateTimeFormat("pl-PL", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(Date.UTC(year, month - 1, 1)));
+    const close = document.createElement("button");
+    close.type = "button";
+    close.className = "bu-slot-paytable-close";
+    close.title = "Zamknij";
+    close.textContent = "✕";
+    close.addEventListener("click", () => {
+      panel.hidden = true;
+    });
+    head.appendChild(heading);
+    head.appendChild(close);
+    panel.appendChild(head);
+
+    const grid = document.createElement("div");
+    grid.className = "bu-streak-grid";
+    for (const name of ["Pn", "Wt", "Śr", "Cz", "Pt", "So", "Nd"]) {
+      const cell = document.createElement("span");
+      cell.className = "bu-streak-weekday";
+      cell.textContent = name;
+      grid.appendChild(cell);
+    }
+    // Monday-first offset of the 1st and the month length
+    const offset = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7;
+    const length = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    for (let i = 0; i < offset; i++) {
+      grid.appendChild(document.createElement("span"));
+    }
+    const visited = new Set(streak.visited);
+    const claimed = new Set(streak.claimed);
+    for (let d = 1; d <= length; d++) {
+      const day = `${year}-${String(month).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+      const cell = document.createElement("span");
+      cell.className = "bu-streak-day";
+      cell.textContent = String(d);
+      if (claimed.has(day)) {
+        cell.classList.add("bu-streak-claimed");
+        cell.title = "Darmowy spin odebrany";
+      } else if (visited.has(day)) {
+        cell.classList.add("bu-streak-visited");
+        cell.title = "Wizyta bez darmowego spinu";
+      }
+      if (day === today) cell.classList.add("bu-streak-today");
+      grid.appendChild(cell);
+    }
+    panel.appendChild(grid);
+
+    const next = streakReward(streak.current + 1);
+    const summary = document.createElement("div");
+    summary.className = "bu-slot-history-summary";
+    const nextParts = [
+      next.coins > 0 ? `+${next.coins} monet` : null,
+      next.spins > 0 ? `+${next.spins} spin` : null,
+    ].filter(Boolean);
+    summary.textContent =
+      `Seria: ${streak.current} · rekord: ${streak.best}` +
+      (nextParts.length > 0 ? ` · jutro ${nextParts.join(", ")}` : "");
+    summary.title = `Dni liczone według strefy ${STREAK_TIME_ZONE}`;
+    panel.appendChild(summary);
   }
 
   function refreshCoinDisplay(): void {
@@ -165,12 +573,15 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     if (!coinEl) return;
     const stats = loadStatistics();
     coinEl.textContent = String(stats.coins);
+    refreshStreakDisplay();
+    const shopCoins = document.querySelector("#bu-shop-coins");
+    if (shopCoins) shopCoins.textContent = String(stats.coins);
     // Update lever disabled state — enable if coins > 0 OR free spin available
     const lever = document.querySelector(
       "#bu-slot-pull",
     ) as HTMLButtonElement | null;
     if (lever) {
-      if (stats.coins <= 0 && !hasFreeSpinToday()) {
+      if (stats.coins <= 0 && !hasFreeSpin()) {
         lever.disabled = true;
         lever.classList.add("bu-lever-disabled");
       } else {
@@ -228,13 +639,14 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     // Remove existing modal
     document.querySelector(".bu-stats-modal-overlay")?.remove();
 
-    const stats = loadStatistics();
+    const stats = scopedStatistics(loadStatistics());
     const isDefeated = type === "defeated";
     const entries = isDefeated ? stats.defeatedEntries : stats.failEntries;
     const title = isDefeated ? "YOU DEFEATED" : "YOU FAILED";
+    const scopeNote = statsScope === "all" ? "" : ` · ${statsScopeLabel()}`;
     const subtitle = isDefeated
-      ? `${entries.length} ocen z maksymalnym wynikiem`
-      : `${entries.length} ocen z wynikiem 0`;
+      ? `${entries.length} ocen z maksymalnym wynikiem${scopeNote}`
+      : `${entries.length} ocen z wynikiem 0${scopeNote}`;
 
     const overlay = document.createElement("div");
     overlay.className = "bu-stats-modal-overlay";
@@ -261,10 +673,14 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     header.appendChild(headerLeft);
     header.appendChild(closeBtn);
     modal.appendChild(header);
+    const tabs = document.createElement("div");
+    tabs.className = "bu-modal-tabs";
+    modal.appendChild(tabs);
     const body = document.createElement("div");
     body.className = "bu-modal-body";
+    const listView = document.createElement("div");
     // Safe: buildEntryListHTML używa escapeHTML
-    body.insertAdjacentHTML(
+    listView.insertAdjacentHTML(
       "afterbegin",
       buildEntryListHTML(
         entries,
@@ -273,7 +689,52 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           : "Brak failed ocen – tak trzymaj!",
       ),
     );
+    body.appendChild(listView);
+    let chartView: HTMLElement | null = null;
+    for (const [view, label] of [
+      ["list", "Lista"],
+      ["chart", "Historia odsłonięć"],
+    ] as const) {
+      const tab = document.createElement("button");
+      tab.type = "button";
+      tab.className = "bu-modal-tab";
+      if (view === "list") tab.classList.add("bu-modal-tab-active");
+      tab.textContent = label;
+      tab.addEventListener("click", () => {
+        tabs
+          .querySelectorAll(".bu-modal-tab")
+          .forEach((t) => t.classList.remove("bu-modal-tab-active"));
+        tab.classList.add("bu-modal-tab-active");
+        while (body.firstChild) body.removeChild(body.firstChild);
+        if (view === "list") {
+          body.appendChild(listView);
+        } else {
+          chartView ??= buildHistoryChart(stats.revealLog);
+          body.appendChild(chartView);
+        }
+      });
+      tabs.appendChild(tab);
+    }
     modal.appendChild(body);
+    const footer = document.createElement("div");
+    footer.className = "bu-modal-footer";
+    const exportLabel = document.createElement("span");
+    exportLabel.className = "bu-modal-footer-label";
+    exportLabel.textContent = "Eksport historii:";
+    footer.appendChild(exportLabel);
+    for (const format of ["json", "csv"] as const) {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "bu-modal-export";
+      btn.textContent = format.toUpperCase();
+      btn.addEventListener("click", () => {
+        exportData(format, PROFILE_HOST).catch((err) =>
+          console.warn("[Better USOS] export error:", err),
+        );
+      });
+      footer.appendChild(btn);
+    }
+    modal.appendChild(footer);
     overlay.appendChild(modal);
 
     document.body.appendChild(overlay);
@@ -295,6 +756,220 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     document.addEventListener("keydown", onKey);
   }
 
+  const SVG_NS = "http://www.w3.org/2000/svg";
+
+  function svgEl(
+    tag: string,
+    attrs: Record<string, string | number>,
+    text?: string,
+  ): SVGElement {
+    const el = document.createElementNS(SVG_NS, tag);
+    for (const [key, value] of Object.entries(attrs)) {
+      el.setAttribute(key, String(value));
+    }
+    if (text !== undefined) el.textContent = text;
+    return el;
+  }
+
+  /** Score buckets of the per-semester distribution, lowest first */
+  const HISTORY_BUCKETS = [
+    { id: "zero", label: "0%", test: (r: number) => r <= 0 },
+    { id: "low", label: "< 50%", test: (r: number) => r < 0.5 },
+    { id: "mid", label: "50–74%", test: (r: number) => r < 0.75 },
+    { id: "high", label: "75–99%", test: (r: number) => r < 1 },
+    { id: "max", label: "100%", test: () => true },
+  ] as const;
+
+  function formatChartDate(date: number): string {
+    return new Date(date).toLocaleDateString("pl-PL", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  }
+
+  /**
+   * Chart view of the reveal log: cumulative points percentage over time
+   * and the score distribution per semester. Colours come from the palette
+   * variables via CSS classes, so it follows the light/dark theme.
+   */
+  function buildHistoryChart(events: RevealEvent[]): HTMLElement {
+    const root = document.createElement("div");
+    root.className = "bu-chart";
+    const scored = events
+      .filter((e) => e.max !== null && e.max > 0)
+      .sort((a, b) => a.date - b.date);
+    if (scored.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "bu-entries-empty";
+      empty.textContent =
+        "Brak historii – wykres pojawi się po odsłonięciu ocen z punktami.";
+      root.appendChild(empty);
+      return root;
+    }
+
+    // Cumulative Σ value / Σ max over time
+    const lineTitle = document.createElement("div");
+    lineTitle.className = "bu-chart-title";
+    lineTitle.textContent = "Łączny procent punktów";
+    root.appendChild(lineTitle);
+
+    const W = 560;
+    const H = 200;
+    const PAD = { left: 40, right: 12, top: 10, bottom: 24 };
+    const plotW = W - PAD.left - PAD.right;
+    const plotH = H - PAD.top - PAD.bottom;
+    const first = scored[0].date;
+    const last = scored[scored.length - 1].date;
+    const x = (date: number): number =>
+      PAD.left +
+      (last > first ? ((date - first) / (last - first)) * plotW : plotW / 2);
+    const y = (percent: number): number =>
+      PAD.top + plotH - (Math.min(100, Math.max(0, percent)) / 100) * plotH;
+
+    const line = svgEl("svg", {
+      class: "bu-chart-svg",
+      viewBox: `0 0 ${W} ${H}`,
+      role: "img",
+      "aria-label": "Łączny procent punktów w czasie",
+    });
+    for (const percent of [0, 25, 50, 75, 100]) {
+      line.appendChild(
+        svgEl("line", {
+          class: "bu-chart-grid",
+          x1: PAD.left,
+          x2: W - PAD.right,
+          y1: y(percent),
+          y2: y(percent),
+        }),
+      );
+      line.appendChild(
+        svgEl(
+          "text",
+          {
+            class: "bu-chart-label",
+            x: PAD.left - 6,
+            y: y(percent) + 4,
+            "text-anchor": "end",
+          },
+          `${percent}%`,
+        ),
+      );
+    }
+    let points = 0;
+    let maxPoints = 0;
+    const coords = scored.map((e) => {
+      points += e.value;
+      maxPoints += e.max as number;
+      return `${x(e.date).toFixed(1)},${y((points / maxPoints) * 100).toFixed(1)}`;
+    });
+    line.appendChild(
+      svgEl("polyline", { class: "bu-chart-line", points: coords.join(" ") }),
+    );
+    const [lastX, lastY] = coords[coords.length - 1].split(",");
+    line.appendChild(
+      svgEl("circle", { class: "bu-chart-dot", cx: lastX, cy: lastY, r: 4 }),
+    );
+    line.appendChild(
+      svgEl(
+        "text",
+        { class: "bu-chart-label", x: PAD.left, y: H - 6 },
+        formatChartDate(first),
+      ),
+    );
+    if (last > first) {
+      line.appendChild(
+        svgEl(
+          "text",
+          {
+            class: "bu-chart-label",
+            x: W - PAD.right,
+            y: H - 6,
+            "text-anchor": "end",
+          },
+          formatChartDate(last),
+        ),
+      );
+    }
+    root.appendChild(line);
+
+    // Per-semester distribution as stacked bars
+    const bySemester = new Map<string, number[]>();
+    for (const e of scored) {
+      const key = e.semester ?? "";
+      const counts = bySemester.get(key) ?? HISTORY_BUCKETS.map(() => 0);
+      const ratio = e.value / (e.max as number);
+      counts[HISTORY_BUCKETS.findIndex((b) => b.test(ratio))]++;
+      bySemester.set(key, counts);
+    }
+    const semesters = Array.from(bySemester.keys()).sort();
+
+    const barsTitle = document.createElement("div");
+    barsTitle.className = "bu-chart-title";
+    barsTitle.textContent = "Rozkład wyników w semestrach";
+    root.appendChild(barsTitle);
+
+    const ROW = 26;
+    const LABEL_W = 90;
+    const barsH = semesters.length * ROW + 4;
+    const bars = svgEl("svg", {
+      class: "bu-chart-svg",
+      viewBox: `0 0 ${W} ${barsH}`,
+      role: "img",
+      "aria-label": "Rozkład wyników w semestrach",
+    });
+    semesters.forEach((semester, i) => {
+      const counts = bySemester.get(semester) as number[];
+      const total = counts.reduce((a, b) => a + b, 0);
+      const rowY = i * ROW + 2;
+      bars.appendChild(
+        svgEl(
+          "text",
+          {
+            class: "bu-chart-label",
+            x: LABEL_W - 8,
+            y: rowY + 15,
+            "text-anchor": "end",
+          },
+          semester || "Bez semestru",
+        ),
+      );
+      let offset = LABEL_W;
+      const barW = W - LABEL_W - PAD.right;
+      counts.forEach((count, b) => {
+        if (count === 0) return;
+        const width = (count / total) * barW;
+        const rect = svgEl("rect", {
+          class: `bu-chart-bucket bu-chart-bucket-${HISTORY_BUCKETS[b].id}`,
+          x: offset,
+          y: rowY,
+          width,
+          height: ROW - 8,
+        });
+        rect.appendChild(
+          svgEl("title", {}, `${HISTORY_BUCKETS[b].label}: ${count}`),
+        );
+        bars.appendChild(rect);
+        offset += width;
+      });
+    });
+    root.appendChild(bars);
+
+    const legend = document.createElement("div");
+    legend.className = "bu-chart-legend";
+    for (const bucket of HISTORY_BUCKETS) {
+      const item = document.createElement("span");
+      item.className = "bu-chart-legend-item";
+      const swatch = document.createElement("span");
+      swatch.className = `bu-chart-swatch bu-chart-bucket-${bucket.id}`;
+      item.appendChild(swatch);
+      item.appendChild(document.createTextNode(bucket.label));
+      legend.appendChild(item);
+    }
+    root.appendChild(legend);
+    return root;
+  }
+
   function buildStatsPanelHTML(stats: GradeStatistics): string {
     const normalCount =
       stats.revealedCount - stats.defeatedCount - stats.failCount;
@@ -332,54 +1007,449 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
   `;
   }
 
+  /**
+   * Fill the change log card with every subject's log, most recently
+   * changed subject first. Values of grades that were never revealed stay
+   * hidden here as well.
+   */
+  async function renderChangesPanel(content: HTMLElement): Promise<void> {
+    const all = await chrome.storage.local.get(null);
+    const subjects: { wezId: string; log: SubjectChangeLog }[] = [];
+    for (const [key, value] of Object.entries(all)) {
+      // Subjects of the other universities belong to their own dashboards
+      const parsed = parseSubjectKey(key, CHANGES_KEY_PREFIX);
+      if (parsed?.host !== PROFILE_HOST) continue;
+      const log = parseChangeLog(value, key, []);
+      if (log && log.entries.length > 0) {
+        subjects.push({ wezId: parsed.wezId, log });
+      }
+    }
+    subjects.sort((a, b) => b.log.entries[0].date - a.log.entries[0].date);
+
+    while (content.firstChild) content.removeChild(content.firstChild);
+    if (subjects.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "bu-entries-empty";
+      empty.textContent =
+        "Brak zmian – nowe i poprawione oceny pojawią się tu po odwiedzeniu stron ocen.";
+      content.appendChild(empty);
+      return;
+    }
+
+    for (const { wezId, log } of subjects) {
+      const revealed = new Set(
+        parseRevealSet(all[revealKey(wezId, PROFILE_HOST)] ?? [], wezId, []) ??
+          [],
+      );
+      const group = document.createElement("div");
+      group.className = "bu-changes-subject";
+      const link = document.createElement("a");
+      link.className = "bu-changes-subject-link";
+      if (log.url) link.href = log.url;
+      link.textContent = log.subject || "Nieznany przedmiot";
+      group.appendChild(link);
+      for (const change of log.entries) {
+        const row = document.createElement("div");
+        row.className = "bu-changes-row";
+        const badge = document.createElement("span");
+        badge.className = `bu-change-badge bu-change-${change.kind}`;
+        badge.textContent = change.kind === "new" ? "NOWA" : "ZMIENIONA";
+        const name = document.createElement("span");
+        name.className = "bu-changes-name";
+        name.textContent = change.name;
+        const values = document.createElement("span");
+        values.className = "bu-changes-values";
+        values.textContent = revealed.has(change.id)
+          ? describeChange(change)
+          : "ukryta";
+        const date = document.createElement("span");
+        date.className = "bu-entry-date";
+        date.textContent = new Date(change.date).toLocaleDateString("pl-PL", {
+          day: "numeric",
+          month: "short",
+        });
+        row.appendChild(badge);
+        row.appendChild(name);
+        row.appendChild(values);
+        row.appendChild(date);
+        group.appendChild(row);
+      }
+      content.appendChild(group);
+    }
+  }
+
+  /**
+   * Fill the grades overview card with the stored summary of every subject
+   * whose grades tree was opened, sorted by subject name.
+   */
+  async function renderGradesOverview(content: HTMLElement): Promise<void> {
+    const all = await chrome.storage.local.get(null);
+    const summaries: SubjectSummary[] = [];
+    for (const [key, value] of Object.entries(all)) {
+      if (parseSubjectKey(key, SUMMARY_KEY_PREFIX)?.host !== PROFILE_HOST) {
+        continue;
+      }
+      const summary = parseSubjectSummary(value, key, []);
+      if (summary) summaries.push(summary);
+    }
+    summaries.sort((a, b) => a.subject.localeCompare(b.subject, "pl"));
+
+    while (content.firstChild) content.removeChild(content.firstChild);
+    if (summaries.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "bu-entries-empty";
+      empty.textContent =
+        "Brak przedmiotów – otwórz stronę ocen przedmiotu, aby pojawił się tutaj.";
+      content.appendChild(empty);
+      return;
+    }
+
+    for (const summary of summaries) {
+      const row = document.createElement("a");
+      row.className = "bu-overview-row";
+      row.href = summary.url;
+      row.title = "Przejdź do strony ocen";
+      const info = document.createElement("div");
+      info.className = "bu-entry-info";
+      const name = document.createElement("span");
+      name.className = "bu-entry-name";
+      name.textContent = summary.subject || "Nieznany przedmiot";
+      const revealed = document.createElement("span");
+      revealed.className = "bu-entry-subject";
+      revealed.textContent = `Odsłonięte: ${summary.revealedCount} z ${summary.gradedCount}`;
+      info.appendChild(name);
+      info.appendChild(revealed);
+      const points = document.createElement("span");
+      points.className = "bu-overview-points";
+      points.textContent =
+        summary.maxPoints > 0
+          ? `${formatPoints(summary.points)} / ${formatPoints(summary.maxPoints)} · ${formatPercent(summary.points / summary.maxPoints)}`
+          : "–";
+      const grade = document.createElement("span");
+      grade.className = "bu-overview-grade";
+      grade.textContent =
+        summary.grade !== null ? formatGrade(summary.grade) : "–";
+      if (summary.grade !== null && summary.grade < 3) {
+        grade.classList.add("bu-overview-grade-fail");
+      }
+      row.appendChild(info);
+      row.appendChild(points);
+      row.appendChild(grade);
+      content.appendChild(row);
+    }
+  }
+
+  async function renderAchievementsPanel(content: HTMLElement): Promise<void> {
+    const unlocked = await loadAchievements(PROFILE_HOST);
+    while (content.firstChild) content.removeChild(content.firstChild);
+
+    const dateFmt = new Intl.DateTimeFormat("pl-PL", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+    for (const rule of ACHIEVEMENT_RULES) {
+      const unlocks = unlocked
+        .filter((a) => a.rule === rule.id)
+        .sort((a, b) => b.unlocked - a.unlocked);
+      const row = document.createElement("div");
+      row.className = "bu-achievement-row";
+      if (unlocks.length === 0) row.classList.add("bu-achievement-locked");
+      const info = document.createElement("div");
+      info.className = "bu-entry-info";
+      const name = document.createElement("span");
+      name.className = "bu-entry-name";
+      name.textContent = rule.title;
+      const desc = document.createElement("span");
+      desc.className = "bu-entry-subject";
+      const details = unlocks
+        .map((a) => a.detail)
+        .filter((d): d is string => !!d);
+      desc.textContent =
+        details.length > 0 ? details.join(", ") : rule.description;
+      desc.title = rule.description;
+      info.appendChild(name);
+      info.appendChild(desc);
+      const status = document.createElement("span");
+      status.className = "bu-achievement-status";
+      if (unlocks.length === 0) {
+        status.textContent = "Zablokowane";
+      } else {
+        const count = unlocks.length > 1 ? ` ×${unlocks.length}` : "";
+        status.textContent = `${dateFmt.format(new Date(unlocks[0].unlocked))}${count}`;
+      }
+      row.appendChild(info);
+      row.appendChild(status);
+      content.appendChild(row);
+    }
+  }
+
+  function renderShopPanel(content: HTMLElement): void {
+    while (content.firstChild) content.removeChild(content.firstChild);
+
+    const balance = document.createElement("div");
+    balance.className = "bu-shop-balance";
+    balance.append("Monety: ");
+    const coins = document.createElement("strong");
+    coins.id = "bu-shop-coins";
+    coins.textContent = String(loadStatistics().coins);
+    balance.appendChild(coins);
+    const status = document.createElement("span");
+    status.className = "bu-shop-status";
+    balance.appendChild(status);
+    content.appendChild(balance);
+
+    const update = (state: ShopState): void => {
+      _shopCache = state;
+      saveShopState(state).catch((err) =>
+        console.warn("[Better USOS] shop save error:", err),
+      );
+      applyCosmetics();
+      renderShopPanel(content);
+    };
+
+    const addRow = (
+      name: string,
+      description: string,
+      action: HTMLButtonElement,
+      equipped: boolean,
+    ): void => {
+      const row = document.createElement("div");
+      row.className = "bu-shop-row";
+      if (equipped) row.classList.add("bu-shop-equipped");
+      const info = document.createElement("div");
+      info.className = "bu-entry-info";
+      const nameEl = document.createElement("span");
+      nameEl.className = "bu-entry-name";
+      nameEl.textContent = name;
+      const desc = document.createElement("span");
+      desc.className = "bu-entry-subject";
+      desc.textContent = description;
+      info.appendChild(nameEl);
+      info.appendChild(desc);
+      row.appendChild(info);
+      row.appendChild(action);
+      content.appendChild(row);
+    };
+
+    const makeButton = (
+      label: string,
+      onClick?: () => void,
+    ): HTMLButtonElement => {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "bu-shop-btn";
+      btn.textContent = label;
+      if (onClick) btn.addEventListener("click", onClick);
+      else btn.disabled = true;
+      return btn;
+    };
+
+    for (const category of COSMETIC_CATEGORIES) {
+      const heading = document.createElement("div");
+      heading.className = "bu-shop-category";
+      heading.textContent = CATEGORY_LABELS[category];
+      content.appendChild(heading);
+
+      const current = _shopCache.equipped[category];
+      addRow(
+        "Domyślne",
+        "Wbudowany wygląd.",
+        current
+          ? makeButton("Załóż", () => update(equip(_shopCache, category, null)))
+          : makeButton("Założone"),
+        !current,
+      );
+
+      for (const item of SHOP_ITEMS) {
+        if (item.category !== category) continue;
+        let action: HTMLButtonElement;
+        if (current === item.id) {
+          action = makeButton("Założone");
+        } else if (_shopCache.owned.includes(item.id)) {
+          action = makeButton("Załóż", () =>
+            update(equip(_shopCache, category, item.id)),
+          );
+        } else {
+          action = makeButton(`Kup · ${item.price}`, () => {
+            const result = purchase(
+              _shopCache,
+              loadStatistics().coins,
+              item.id,
+            );
+            if (!result.ok) {
+              status.textContent = result.reason;
+              return;
+            }
+            updateStatistic("coins", -result.price);
+            update(result.state);
+          });
+          action.classList.add("bu-shop-buy");
+        }
+        addRow(item.name, item.description, action, current === item.id);
+      }
+    }
+  }
+
   /** Set by setupDashboard so extension popup can toggle edit mode via messages */
   let dashboardEditState: {
     dashboard: HTMLElement;
     persistOrder: () => void;
   } | null = null;
 
-  function injectShadowStyle(
-    hostSelectors: string[],
-    cssContent: string,
-    hostNode: Document | ShadowRoot | Element = document.body,
+  /** Constructed sheets by CSS text, shared by every root that adopts them */
+  const adoptedSheets = new Map<string, CSSStyleSheet>();
+
+  /** Marks the <style> elements this script put into shadow roots */
+  const SHADOW_STYLE_ATTR = "data-better-usos";
+
+  /**
+   * Add `css` to a shadow root, as an adopted sheet or a <style> element.
+   * Does nothing when the root already has it, so it is safe to call again
+   * after every re-render.
+   */
+  function appendShadowStyle(
+    root: ShadowRoot,
+    css: string,
     useAdopted = false,
   ): void {
-    if (hostSelectors.length === 0) {
-      // useAdopted: append to adoptedStyleSheets (wins over Lit's built-in sheets)
-      if (
-        useAdopted &&
-        hostNode instanceof ShadowRoot &&
-        "adoptedStyleSheets" in hostNode
-      ) {
-        try {
-          const sheet = new CSSStyleSheet();
-          sheet.replaceSync(cssContent);
-          const existing = Array.from(hostNode.adoptedStyleSheets || []);
-          hostNode.adoptedStyleSheets = [...existing, sheet];
-        } catch {
-          /* fallback to <style> injection */
-          const style = document.createElement("style");
-          style.textContent = cssContent;
-          hostNode.appendChild(style);
+    // useAdopted: append to adoptedStyleSheets (wins over Lit's built-in sheets)
+    if (useAdopted && "adoptedStyleSheets" in root) {
+      try {
+        let sheet = adoptedSheets.get(css);
+        if (!sheet) {
+          sheet = new CSSStyleSheet();
+          sheet.replaceSync(css);
+          adoptedSheets.set(css, sheet);
         }
-      } else {
-        const style = document.createElement("style");
-        style.textContent = cssContent;
-        hostNode.appendChild(style);
+        const existing = Array.from(root.adoptedStyleSheets || []);
+        if (!existing.includes(sheet)) {
+          root.adoptedStyleSheets = [...existing, sheet];
+        }
+        return;
+      } catch {
+        /* fallback to <style> injection */
+      }
+    }
+    for (const style of root.querySelectorAll(`style[${SHADOW_STYLE_ATTR}]`)) {
+      if (style.textContent === css) return;
+    }
+    const style = document.createElement("style");
+    style.setAttribute(SHADOW_STYLE_ATTR, "");
+    style.textContent = css;
+    root.appendChild(style);
+  }
+
+  /** Tag of the component whose shadow root holds `el`, null in the page DOM */
+  function parentHostTag(el: Element): string | null {
+    const root = el.getRootNode();
+    return root instanceof ShadowRoot ? root.host.localName : null;
+  }
+
+  /** Registry styles matching `host`, or none when it has no shadow root */
+  function shadowStylesOf(host: Element): ShadowStyle[] {
+    if (!host.shadowRoot) return [];
+    return shadowStylesFor(host.localName, parentHostTag(host));
+  }
+
+  /** Retries for components whose shadow root is attached after insertion */
+  const SHADOW_RETRY_DELAYS = [50, 250, 1000, 3000];
+
+  /** Shadow roots already styled, walked and observed */
+  const injectedShadowRoots = new WeakSet<ShadowRoot>();
+
+  /**
+   * Watches the page and every styled shadow root: components added later
+   * get styled, and roots whose content changed get their styles back.
+   */
+  const shadowObserver = new MutationObserver((mutations) => {
+    const changedRoots = new Set<ShadowRoot>();
+    for (const mutation of mutations) {
+      const root = mutation.target.getRootNode();
+      if (root instanceof ShadowRoot && mutation.removedNodes.length > 0) {
+        changedRoots.add(root);
+      }
+      for (const node of mutation.addedNodes) {
+        if (!(node instanceof Element)) continue;
+        if (isCustomElementTag(node.localName)) styleShadowHost(node);
+        styleShadowTree(node);
+        tweakUsosLinks(node);
       }
-      return;
     }
-    const hosts = hostNode.querySelectorAll(hostSelectors[0]);
-    for (const host of hosts) {
-      if (host.shadowRoot) {
-        injectShadowStyle(
-          hostSelectors.slice(1),
-          cssContent,
-          host.shadowRoot,
-          useAdopted,
+    // A re-render may have dropped our <style> or adopted sheet
+    for (const root of changedRoots) {
+      for (const style of shadowStylesOf(root.host)) {
+        appendShadowStyle(root, style.css, style.adopted);
+      }
+    }
+  });
+
+  function styleShadowHost(host: Element, attempt = 0): void {
+    const root = host.shadowRoot;
+    if (!root) {
+      // Not upgraded yet: Lit attaches the root once the element is defined
+      if (attempt < SHADOW_RETRY_DELAYS.length && host.isConnected) {
+        setTimeout(
+          () => styleShadowHost(host, attempt + 1),
+          SHADOW_RETRY_DELAYS[attempt],
         );
       }
+      return;
+    }
+    for (const style of shadowStylesOf(host)) {
+      appendShadowStyle(root, style.css, style.adopted);
     }
+    // Later changes inside the root reach the observer
+    if (injectedShadowRoots.has(root)) return;
+    injectedShadowRoots.add(root);
+    shadowObserver.observe(root, { childList: true, subtree: true });
+    styleShadowTree(root);
+  }
+
+  /** Style every custom element under `root`, descending into shadow roots */
+  function styleShadowTree(root: ParentNode): void {
+    for (const el of root.querySelectorAll("*")) {
+      if (isCustomElementTag(el.localName)) styleShadowHost(el);
+    }
+  }
+
+  /** Style components added to the page after the first pass */
+  function observeShadowHosts(): void {
+    shadowObserver.observe(document.body, { childList: true, subtree: true });
+  }
+
+  /** Sentence-case "więcej" links and drop their icon placement */
+  function tweakUsosLinks(root: ParentNode): void {
+    root.querySelectorAll("usos-link span").forEach((el) => {
+      if (el.textContent?.includes("więcej")) {
+        el.textContent = "Więcej";
+      }
+    });
+
+    root.querySelectorAll("usos-link").forEach((link) => {
+      link.removeAttribute("icon-location");
+    });
+  }
+
+  /**
+   * Debug listing: custom elements with a shadow root that no registry
+   * entry styles, by tag with the number of instances.
+   */
+  function listUnstyledComponents(): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    const visit = (root: ParentNode) => {
+      for (const el of root.querySelectorAll("*")) {
+        if (!el.shadowRoot) continue;
+        if (shadowStylesOf(el).length === 0) {
+          counts.set(el.localName, (counts.get(el.localName) ?? 0) + 1);
+        }
+        visit(el.shadowRoot);
+      }
+    };
+    visit(document);
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+      (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+    );
   }
 
   // SVG icons for edit-mode UI only
@@ -390,88 +1460,112 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     eyeOff: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"/><line x1="1" y1="1" x2="23" y2="23"/></svg>`,
   };
 
-  type Palette = Record<string, string>;
-
-  const LIGHT_PALETTE: Palette = {
-    "--usos-bg": "#f8fafc",
-    "--usos-surface": "#ffffff",
-    "--usos-border": "#e2e8f0",
-    "--usos-border-subtle": "#f1f5f9",
-    "--usos-primary": "#2563eb",
-    "--usos-primary-hover": "#1d4ed8",
-    "--usos-text": "#1e293b",
-    "--usos-text-muted": "#64748b",
-    "--usos-header-gradient": "#fafbfc",
-    "--usos-border-hover": "#cbd5e1",
-  };
-
-  const DARK_PALETTE: Palette = {
-    // Better USOS custom variables
-    "--usos-bg": "#020617",
-    "--usos-surface": "#0f172a",
-    "--usos-border": "#1e293b",
-    "--usos-border-subtle": "#111827",
-    "--usos-primary": "#3b82f6",
-    "--usos-primary-hover": "#60a5fa",
-    "--usos-text": "#e2e8f0",
-    "--usos-text-muted": "#94a3b8",
-    "--usos-header-gradient": "#111827",
-    "--usos-border-hover": "#334155",
-    "--usos-shadow": "0 1px 3px rgba(0, 0, 0, 0.3)",
-    "--usos-shadow-md": "0 4px 12px rgba(0, 0, 0, 0.3)",
-    // Override USOS native variables so shadow DOM components inherit dark colors
-    "--font-color": "#e2e8f0",
-    "--primary": "#818cf8",
-    "--on-primary": "#020617",
-    "--secondary": "#fbbf24",
-    "--secondary-variant": "#f59e0b",
-    "--background": "#0f172a",
-    "--on-background": "#e2e8f0",
-    "--background-secondary": "#1e293b",
-    "--on-background-secondary": "#cbd5e1",
-    "--grey": "#94a3b8",
-    "--border": "#334155",
-    "--ok-status": "#4ade80",
-    "--error": "#f87171",
-    "--warning": "#fbbf24",
-    "--accent-red": "#f87171",
-    "--accent-blue": "#60a5fa",
-    "--accent-green": "#34d399",
-    "--accent-violet": "#a78bfa",
-    "--font-color-reverse": "#1e293b",
-    "--background-reverse": "#e2e8f0",
-    // Timetable entry colors for dark mode (--bu-tt- prefix to avoid collision with shadow DOM vars)
-    "--bu-tt-color-1": "rgba(52, 211, 153, 0.18)",
-    "--bu-tt-color-1-border": "rgba(52, 211, 153, 0.5)",
-    "--bu-tt-color-2": "rgba(251, 191, 36, 0.18)",
-    "--bu-tt-color-2-border": "rgba(251, 191, 36, 0.5)",
-    "--bu-tt-color-3": "rgba(96, 165, 250, 0.18)",
-    "--bu-tt-color-3-border": "rgba(96, 165, 250, 0.5)",
-    "--bu-tt-color-4": "rgba(167, 139, 250, 0.18)",
-    "--bu-tt-color-4-border": "rgba(167, 139, 250, 0.5)",
-    "--bu-tt-color-5": "rgba(163, 230, 53, 0.18)",
-    "--bu-tt-color-5-border": "rgba(163, 230, 53, 0.5)",
-    "--bu-tt-color-6": "rgba(253, 224, 71, 0.18)",
-    "--bu-tt-color-6-border": "rgba(253, 224, 71, 0.5)",
-    "--bu-tt-color-7": "rgba(148, 163, 184, 0.18)",
-    "--bu-tt-color-7-border": "rgba(148, 163, 184, 0.5)",
-    "--bu-tt-color-8": "rgba(251, 113, 133, 0.18)",
-    "--bu-tt-color-8-border": "rgba(251, 113, 133, 0.5)",
-    // timetable-day background
-    "--bu-tt-day-bg": "transparent",
+  /**
+   * Palettes bought in the coin shop. Each one extends the light or dark
+   * palette, which also decides the dark-mode class.
+   */
+  const COSMETIC_PALETTES: Record<
+    string,
+    { base: BuiltinThemeId; vars: Palette }
+  > = {
+    sepia: {
+      base: "light",
+      vars: {
+        "--usos-bg": "#f7f1e3",
+        "--usos-surface": "#fffaf0",
+        "--usos-border": "#e7dcc4",
+        "--usos-border-subtle": "#f1e9d6",
+        "--usos-primary": "#b45309",
+        "--usos-primary-hover": "#92400e",
+        "--usos-text": "#3f2d1c",
+        "--usos-text-muted": "#8a6f52",
+        "--usos-header-gradient": "#fbf4e4",
+        "--usos-border-hover": "#d6c5a3",
+      },
+    },
+    forest: {
+      base: "dark",
+      vars: {
+        "--usos-bg": "#07130e",
+        "--usos-surface": "#0d1f17",
+        "--usos-border": "#1a3326",
+        "--usos-border-subtle": "#10261b",
+        "--usos-primary": "#22c55e",
+        "--usos-primary-hover": "#4ade80",
+        "--usos-text": "#dcfce7",
+        "--usos-text-muted": "#86a995",
+        "--usos-header-gradient": "#10261b",
+        "--usos-border-hover": "#2a4a38",
+        "--primary": "#4ade80",
+        "--background": "#0d1f17",
+        "--background-secondary": "#1a3326",
+      },
+    },
+    synthwave: {
+      base: "dark",
+      vars: {
+        "--usos-bg": "#120424",
+        "--usos-surface": "#1c0a33",
+        "--usos-border": "#341a55",
+        "--usos-border-subtle": "#230e3f",
+        "--usos-primary": "#ec4899",
+        "--usos-primary-hover": "#f472b6",
+        "--usos-text": "#f5e8ff",
+        "--usos-text-muted": "#b197cf",
+        "--usos-header-gradient": "#230e3f",
+        "--usos-border-hover": "#4c2a75",
+        "--primary": "#f472b6",
+        "--background": "#1c0a33",
+        "--background-secondary": "#341a55",
+      },
+    },
   };
 
-  function applyPalette(id: PaletteId): void {
-    const palette: Palette = id === "dark" ? DARK_PALETTE : LIGHT_PALETTE;
+  /** Shop palette equipped on top of the theme, if any */
+  let cosmeticPalette: string | undefined;
+  /** Theme last passed to applyPalette, re-applied when cosmetics change */
+  let currentThemeId: ThemeId = "light";
+  /** User-defined themes (from the options page) */
+  let customThemes: CustomTheme[] = [];
+  /** Variables set on <html> by the last palette, removed on the next one */
+  let appliedPaletteKeys: string[] = [];
+  /** Hours of the "schedule" theme mode */
+  let themeSchedule: ThemeSchedule = DEFAULT_THEME_SCHEDULE;
+  /** Timer re-applying the "schedule" mode at the next full hour */
+  let themeScheduleTimer: number | undefined;
+
+  const darkSchemeQuery = window.matchMedia("(prefers-color-scheme: dark)");
+  darkSchemeQuery.addEventListener("change", () => {
+    if (currentThemeId === "system") applyPalette(currentThemeId);
+  });
+
+  /** Check the schedule again when the next hour starts */
+  function scheduleThemeSwitch(): void {
+    window.clearTimeout(themeScheduleTimer);
+    themeScheduleTimer = undefined;
+    if (currentThemeId !== "schedule") return;
+    const next = new Date();
+    next.setHours(next.getHours() + 1, 0, 0, 0);
+    themeScheduleTimer = window.setTimeout(
+      () => applyPalette(currentThemeId),
+      next.getTime() - Date.now(),
+    );
+  }
 
-    const root = document.documentElement;
+  async function initCustomThemes(): Promise<void> {
+    try {
+      customThemes = await loadCustomThemes();
+    } catch {
+      /* ignore */
+    }
+  }
+
+  /** Set the palette's CSS variables and the dark class for `base` */
+  function setPalette(base: BuiltinThemeId, palette: Palette): void {
+    const root = document.documentElement;
 
     // Remove all previously set palette vars before applying new ones
-    const allKeys = new Set([
-      ...Object.keys(LIGHT_PALETTE),
-      ...Object.keys(DARK_PALETTE),
-    ]);
-    for (const key of allKeys) {
+    for (const key of appliedPaletteKeys) {
       if (!(key in palette)) {
         root.style.removeProperty(key);
       }
@@ -480,18 +1574,62 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     for (const [key, value] of Object.entries(palette)) {
       root.style.setProperty(key, value);
     }
+    appliedPaletteKeys = Object.keys(palette);
 
     // Toggle dark mode class for overrides that can't use CSS variables
-    document.body.classList.toggle("better-usos-dark", id === "dark");
+    // (the high-contrast palette is dark too)
+    document.body.classList.toggle("better-usos-dark", base !== "light");
+    document.body.classList.toggle("better-usos-contrast", base === "contrast");
+  }
+
+  function applyPalette(id: ThemeId): void {
+    currentThemeId = id;
+    const custom = customThemes.find((t) => t.id === id);
+    // A shop palette only stands in for the plain light and dark themes;
+    // custom, automatic and high-contrast themes are picked on purpose
+    const cosmetic =
+      cosmeticPalette && (id === "light" || id === "dark")
+        ? COSMETIC_PALETTES[cosmeticPalette]
+        : undefined;
+    if (cosmetic) {
+      setPalette(cosmetic.base, {
+        ...basePalette(cosmetic.base),
+        ...cosmetic.vars,
+      });
+    } else if (custom) {
+      setPalette(custom.base, themePalette(custom));
+    } else {
+      const base = resolveThemeMode(id, {
+        prefersDark: darkSchemeQuery.matches,
+        hour: new Date().getHours(),
+        schedule: themeSchedule,
+      });
+      setPalette(base, basePalette(base));
+    }
+    scheduleThemeSwitch();
 
     // Cache theme in localStorage for instant apply on next page load
     try {
-      localStorage.setItem(THEME_CACHE_KEY, JSON.stringify({ themeId: id }));
+      localStorage.setItem(
+        THEME_CACHE_KEY,
+        JSON.stringify({
+          themeId: id,
+          cosmetic: cosmeticPalette,
+          custom,
+          schedule: themeSchedule,
+        }),
+      );
     } catch {
       /* ignore */
     }
   }
 
+  /** Show an unsaved theme from the palette editor; null goes back */
+  function previewPalette(theme: CustomTheme | null): void {
+    if (theme) setPalette(theme.base, themePalette(theme));
+    else applyPalette(currentThemeId);
+  }
+
   function applySettings(settings: BetterUsosSettings): void {
     const showBanner = settings.showBanner ?? true;
     document.body.classList.toggle("better-usos-hide-banner", !showBanner);
@@ -510,8 +1648,20 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     } catch {
       /* ignore */
     }
-    const themeId: PaletteId = settings.themeId === "dark" ? "dark" : "light";
-    applyPalette(themeId);
+    themeSchedule = parseThemeSchedule(settings.themeSchedule);
+    applyPalette(isThemeId(settings.themeId) ? settings.themeId : "light");
+    setHistogramBins(settings.histogramBins);
+  }
+
+  function setHistogramBins(bins: unknown): void {
+    const next =
+      typeof bins === "number" &&
+      (HISTOGRAM_BINS as readonly number[]).includes(bins)
+        ? bins
+        : DEFAULT_HISTOGRAM_BINS;
+    if (next === histogramBins) return;
+    histogramBins = next;
+    refreshHistograms?.();
   }
 
   function getFrameId(frame: Element): string {
@@ -528,17 +1678,6 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     return `bu-${Math.abs(hash).toString(36)}`;
   }
 
-  /** Column span: 2 = 1/3, 3 = 1/2, 4 = 2/3, 6 = full row */
-  const SPAN_OPTIONS = [2, 3, 4, 6] as const;
-  type SpanValue = (typeof SPAN_OPTIONS)[number];
-
-  interface DashboardState {
-    order: string[];
-    hidden: string[];
-    /** frameId -> grid column span (2, 3, or 6) */
-    spans?: Record<string, SpanValue>;
-  }
-
   let _dashboardCache: DashboardState | null = null;
   let _dashboardCacheReady = false;
 
@@ -549,7 +1688,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
   function saveDashboardState(state: DashboardState): void {
     _dashboardCache = state;
     try {
-      chrome.storage.local.set({ [DASHBOARD_STORAGE_KEY]: state });
+      chrome.storage.local.set({ [dashboardKey(PROFILE_HOST)]: state });
     } catch {
       // ignore
     }
@@ -557,10 +1696,16 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
   async function initDashboardCache(): Promise<void> {
     try {
-      const res = await chrome.storage.local.get(DASHBOARD_STORAGE_KEY);
-      const data = res[DASHBOARD_STORAGE_KEY] as DashboardState | undefined;
-      if (data && Array.isArray(data.order) && Array.isArray(data.hidden)) {
-        _dashboardCache = data;
+      const key = dashboardKey(PROFILE_HOST);
+      const res = await chrome.storage.local.get(key);
+      const raw = res[key];
+      if (raw !== undefined) {
+        const errors: string[] = [];
+        const data = parseDashboardState(raw, errors);
+        if (errors.length > 0) {
+          console.warn("[Better USOS] invalid dashboard in storage:", errors);
+        }
+        if (data) _dashboardCache = data;
       }
     } catch {
       /* ignore */
@@ -568,8 +1713,13 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     _dashboardCacheReady = true;
   }
 
-  /** Selector matching all dashboard cards (native USOS frames + stats panel) */
-  const CARD_SEL = "usos-frame, .bu-stats-panel, .bu-slot-panel";
+  /** Selector matching all dashboard cards (native USOS frames + own panels) */
+  const CARD_SEL =
+    "usos-frame, .bu-stats-panel, .bu-slot-panel, .bu-changes-panel, .bu-grades-panel, .bu-achievements-panel, .bu-shop-panel";
+
+  /** Header titles of the own panels (edit controls are appended there) */
+  const PANEL_TITLE_SEL =
+    ".bu-stats-title, .bu-slot-title, .bu-changes-title, .bu-grades-title, .bu-achievements-title, .bu-shop-title";
 
   function setupDashboard(): void {
     try {
@@ -590,15 +1740,18 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       statsTitle.innerHTML =
         '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: -3px; margin-right: 6px;"><path d="M3 3v16a2 2 0 0 0 2 2h16"/><path d="m7 11 4-4 4 4 6-6"/></svg>Statystyki ocen';
       statsHeader.appendChild(statsTitle);
+      statsHeader.appendChild(buildStatsScopeSelect(stats));
       statsPanel.appendChild(statsHeader);
       const statsContent = document.createElement("div");
       statsContent.id = "bu-stats-panel-content";
       // Safe: buildStatsPanelHTML używa escapeHTML
-      statsContent.insertAdjacentHTML("afterbegin", buildStatsPanelHTML(stats));
+      statsContent.insertAdjacentHTML(
+        "afterbegin",
+        buildStatsPanelHTML(scopedStatistics(stats)),
+      );
       statsPanel.appendChild(statsContent);
 
       // --- Create the slot machine panel ---
-      const SLOT_EMOJIS = ["🍒", "🍋", "🍊", "🍇", "⭐", "💎", "7️⃣", "🔔"];
       const slotPanel = document.createElement("div");
       slotPanel.className = "bu-slot-panel";
       slotPanel.id = "bu-slot-frame";
@@ -622,7 +1775,24 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       coinsSpan.id = "bu-slot-coins";
       coinsSpan.textContent = String(stats.coins);
       coinsBadge.appendChild(coinsSpan);
-      slotHeader.appendChild(coinsBadge);
+      const slotActions = document.createElement("div");
+      slotActions.className = "bu-slot-actions";
+      const paytableBtn = document.createElement("button");
+      paytableBtn.type = "button";
+      paytableBtn.className = "bu-slot-paytable-btn";
+      paytableBtn.id = "bu-slot-paytable-btn";
+      paytableBtn.title = "Tabela wypłat i historia";
+      paytableBtn.textContent = "?";
+      const calendarBtn = document.createElement("button");
+      calendarBtn.type = "button";
+      calendarBtn.className = "bu-slot-paytable-btn";
+      calendarBtn.id = "bu-slot-calendar-btn";
+      calendarBtn.title = "Kalendarz serii";
+      calendarBtn.textContent = "📅";
+      slotActions.appendChild(calendarBtn);
+      slotActions.appendChild(paytableBtn);
+      slotActions.appendChild(coinsBadge);
+      slotHeader.appendChild(slotActions);
       slotPanel.appendChild(slotHeader);
       const slotBody = document.createElement("div");
       slotBody.className = "bu-slot-body";
@@ -639,7 +1809,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         const reelInner = document.createElement("div");
         reelInner.className = "bu-slot-reel-inner";
         const emojiSpan = document.createElement("span");
-        emojiSpan.textContent = SLOT_EMOJIS[i];
+        emojiSpan.textContent = reelSymbols[i];
         reelInner.appendChild(emojiSpan);
         reel.appendChild(reelInner);
         slotWindow.appendChild(reel);
@@ -649,6 +1819,10 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       slotResult.className = "bu-slot-result";
       slotResult.id = "bu-slot-result";
       reelsCol.appendChild(slotResult);
+      const slotStreak = document.createElement("div");
+      slotStreak.className = "bu-slot-streak";
+      slotStreak.id = "bu-slot-streak";
+      reelsCol.appendChild(slotStreak);
       slotMachine.appendChild(reelsCol);
       const leverWrap = document.createElement("div");
       leverWrap.className = "bu-slot-lever-wrap";
@@ -666,9 +1840,98 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       slotMachine.appendChild(leverWrap);
       slotBody.appendChild(slotMachine);
       slotPanel.appendChild(slotBody);
+      const paytable = document.createElement("div");
+      paytable.className = "bu-slot-paytable";
+      paytable.id = "bu-slot-paytable";
+      paytable.hidden = true;
+      slotPanel.appendChild(paytable);
+      const calendar = document.createElement("div");
+      calendar.className = "bu-slot-paytable";
+      calendar.id = "bu-slot-calendar";
+      calendar.hidden = true;
+      slotPanel.appendChild(calendar);
+
+      // --- Grade change log panel ---
+      const changesPanel = document.createElement("div");
+      changesPanel.className = "bu-changes-panel";
+      changesPanel.id = "bu-changes-frame";
+      const changesHeader = document.createElement("div");
+      changesHeader.className = "bu-changes-header";
+      const changesTitle = document.createElement("span");
+      changesTitle.className = "bu-changes-title";
+      // Safe: static SVG only
+      changesTitle.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: -3px; margin-right: 6px;"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/><path d="M12 7v5l4 2"/></svg>Zmiany ocen';
+      changesHeader.appendChild(changesTitle);
+      changesPanel.appendChild(changesHeader);
+      const changesContent = document.createElement("div");
+      changesContent.id = "bu-changes-panel-content";
+      changesPanel.appendChild(changesContent);
+      renderChangesPanel(changesContent).catch((err) =>
+        console.warn("[Better USOS] change log error:", err),
+      );
+
+      // --- Grades overview panel ---
+      const gradesPanel = document.createElement("div");
+      gradesPanel.className = "bu-grades-panel";
+      gradesPanel.id = "bu-grades-frame";
+      const gradesHeader = document.createElement("div");
+      gradesHeader.className = "bu-grades-header";
+      const gradesTitle = document.createElement("span");
+      gradesTitle.className = "bu-grades-title";
+      // Safe: static SVG only
+      gradesTitle.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: -3px; margin-right: 6px;"><path d="M22 10v6M2 10l10-5 10 5-10 5z"/><path d="M6 12v5c3 3 9 3 12 0v-5"/></svg>Przegląd ocen';
+      gradesHeader.appendChild(gradesTitle);
+      gradesPanel.appendChild(gradesHeader);
+      const gradesContent = document.createElement("div");
+      gradesContent.id = "bu-grades-panel-content";
+      gradesPanel.appendChild(gradesContent);
+      renderGradesOverview(gradesContent).catch((err) =>
+        console.warn("[Better USOS] grades overview error:", err),
+      );
+
+      // --- Achievements panel ---
+      const achievementsPanel = document.createElement("div");
+      achievementsPanel.className = "bu-achievements-panel";
+      achievementsPanel.id = "bu-achievements-frame";
+      const achievementsHeader = document.createElement("div");
+      achievementsHeader.className = "bu-achievements-header";
+      const achievementsTitle = document.createElement("span");
+      achievementsTitle.className = "bu-achievements-title";
+      // Safe: static SVG only
+      achievementsTitle.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: -3px; margin-right: 6px;"><path d="M6 9H4.5a2.5 2.5 0 0 1 0-5H6"/><path d="M18 9h1.5a2.5 2.5 0 0 0 0-5H18"/><path d="M4 22h16"/><path d="M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22"/><path d="M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22"/><path d="M18 2H6v7a6 6 0 0 0 12 0V2Z"/></svg>Osiągnięcia';
+      achievementsHeader.appendChild(achievementsTitle);
+      achievementsPanel.appendChild(achievementsHeader);
+      const achievementsContent = document.createElement("div");
+      achievementsContent.id = "bu-achievements-panel-content";
+      achievementsPanel.appendChild(achievementsContent);
+      renderAchievementsPanel(achievementsContent).catch((err) =>
+        console.warn("[Better USOS] achievements panel error:", err),
+      );
+
+      // --- Coin shop panel ---
+      const shopPanel = document.createElement("div");
+      shopPanel.className = "bu-shop-panel";
+      shopPanel.id = "bu-shop-frame";
+      const shopHeader = document.createElement("div");
+      shopHeader.className = "bu-shop-header";
+      const shopTitle = document.createElement("span");
+      shopTitle.className = "bu-shop-title";
+      // Safe: static SVG only
+      shopTitle.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="vertical-align: -3px; margin-right: 6px;"><path d="M6 2 3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4Z"/><path d="M3 6h18"/><path d="M16 10a4 4 0 0 1-8 0"/></svg>Sklep';
+      shopHeader.appendChild(shopTitle);
+      shopPanel.appendChild(shopHeader);
+      const shopContent = document.createElement("div");
+      shopContent.id = "bu-shop-panel-content";
+      shopPanel.appendChild(shopContent);
+      renderShopPanel(shopContent);
 
       // --- Fullscreen confetti explosion ---
-      function launchConfetti(): void {
+      function launchConfetti(random: Rng): void {
+        if (seriousMode) return;
         const CONFETTI_COUNT = 150;
         const COLORS = [
           "#d4a017",
@@ -707,9 +1970,9 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         for (let i = 0; i < CONFETTI_COUNT; i++) {
           const el = document.createElement("div");
           el.className = "bu-confetti-piece";
-          const color = COLORS[Math.floor(Math.random() * COLORS.length)];
-          const shape = SHAPES[Math.floor(Math.random() * SHAPES.length)];
-          const size = 6 + Math.random() * 8;
+          const color = pick(random, COLORS);
+          const shape = pick(random, SHAPES);
+          const size = randomBetween(random, 6, 14);
 
           el.style.backgroundColor = color;
           el.style.width = shape === "rect" ? `${size * 0.5}px` : `${size}px`;
@@ -720,24 +1983,24 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           container.appendChild(el);
 
           // Launch from random x across screen top area
-          const startX = Math.random() * window.innerWidth;
-          const startY = -20 - Math.random() * 40;
+          const startX = randomBetween(random, 0, window.innerWidth);
+          const startY = randomBetween(random, -60, -20);
 
           particles.push({
             el,
             x: startX,
             y: startY,
-            vx: (Math.random() - 0.5) * 8,
-            vy: 2 + Math.random() * 6,
-            gravity: 0.12 + Math.random() * 0.08,
-            rotation: Math.random() * 360,
-            rotSpeed: (Math.random() - 0.5) * 15,
-            scale: 0.8 + Math.random() * 0.6,
+            vx: randomBetween(random, -4, 4),
+            vy: randomBetween(random, 2, 8),
+            gravity: randomBetween(random, 0.12, 0.2),
+            rotation: randomBetween(random, 0, 360),
+            rotSpeed: randomBetween(random, -7.5, 7.5),
+            scale: randomBetween(random, 0.8, 1.4),
             opacity: 1,
-            drag: 0.98 + Math.random() * 0.015,
-            wobbleSpeed: 2 + Math.random() * 4,
-            wobbleAmp: 1 + Math.random() * 3,
-            phase: Math.random() * Math.PI * 2,
+            drag: randomBetween(random, 0.98, 0.995),
+            wobbleSpeed: randomBetween(random, 2, 6),
+            wobbleAmp: randomBetween(random, 1, 4),
+            phase: randomBetween(random, 0, Math.PI * 2),
           });
         }
 
@@ -779,7 +2042,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       }
 
       // Slot machine logic
-      function initSlotMachine(): void {
+      function initSlotMachine(random: Rng): void {
         const lever = slotPanel.querySelector(
           "#bu-slot-pull",
         ) as HTMLElement | null;
@@ -797,13 +2060,13 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         const reels = reelEls as HTMLElement[];
         let spinning = false;
         const CELL = 64;
-        const N = SLOT_EMOJIS.length; // number of symbols
+        let N = reelSymbols.length; // number of symbols
 
         // Build the reel strip: 3 full sets of emojis so we can wrap around smoothly
         function buildReelStrip(): string {
           let html = "";
           for (let s = 0; s < 3; s++) {
-            for (const emoji of SLOT_EMOJIS) {
+            for (const emoji of reelSymbols) {
               html += `<span>${emoji}</span>`;
             }
           }
@@ -811,17 +2074,25 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         }
 
         // Initialize reels with the strip (safe: only emojis)
-        reels.forEach((reel) => {
-          while (reel.firstChild) reel.removeChild(reel.firstChild);
-          for (let s = 0; s < 3; s++) {
-            for (const emoji of SLOT_EMOJIS) {
-              const span = document.createElement("span");
-              span.textContent = emoji;
-              reel.appendChild(span);
+        function fillReels(): void {
+          N = reelSymbols.length;
+          reels.forEach((reel) => {
+            while (reel.firstChild) reel.removeChild(reel.firstChild);
+            for (let s = 0; s < 3; s++) {
+              for (const emoji of reelSymbols) {
+                const span = document.createElement("span");
+                span.textContent = emoji;
+                reel.appendChild(span);
+              }
             }
-          }
-          reel.style.transform = "translateY(0)";
-        });
+            reel.style.transform = "translateY(0)";
+          });
+        }
+        fillReels();
+        // A symbol set bought mid-spin is shown from the next spin on
+        refreshSlotReels = () => {
+          if (!spinning) fillReels();
+        };
 
         // Ease-out timing function: fast start → slow stop
         function easeOut(t: number): number {
@@ -829,7 +2100,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         }
 
         /**
-         * Animate one drum. `targetIdx` = index in SLOT_EMOJIS to land on.
+         * Animate one drum. `targetIdx` = index in the reel set to land on.
          * `totalTurns` = how many full rotations (in emoji-counts) to spin.
          * Returns a promise that resolves when the reel stops.
          */
@@ -870,21 +2141,161 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           });
         }
 
+        const paytableBtn = slotPanel.querySelector(
+          "#bu-slot-paytable-btn",
+        ) as HTMLElement | null;
+        const paytable = slotPanel.querySelector(
+          "#bu-slot-paytable",
+        ) as HTMLElement | null;
+
+        /** Paytable (best symbols first) and the latest spins */
+        function renderPaytable(panel: HTMLElement): void {
+          while (panel.firstChild) panel.removeChild(panel.firstChild);
+          const head = document.createElement("div");
+          head.className = "bu-slot-paytable-head";
+          const heading = document.createElement("span");
+          heading.textContent = "Tabela wypłat";
+          const close = document.createElement("button");
+          close.type = "button";
+          close.className = "bu-slot-paytable-close";
+          close.title = "Zamknij";
+          close.textContent = "✕";
+          close.addEventListener("click", () => {
+            panel.hidden = true;
+          });
+          head.appendChild(heading);
+          head.appendChild(close);
+          panel.appendChild(head);
+
+          const table = document.createElement("div");
+          table.className = "bu-slot-paytable-grid";
+          const triplePay = (sym: string): number =>
+            symbolPayout(sym, reelSymbols)?.triple ?? 0;
+          const symbols = [...reelSymbols].sort(
+            (x, y) => triplePay(y) - triplePay(x),
+          );
+          for (const sym of symbols) {
+            const payout = symbolPayout(sym, reelSymbols);
+            if (!payout) continue;
+            const triple = document.createElement("span");
+            triple.className = "bu-slot-paytable-symbols";
+            triple.textContent = `${sym}${sym}${sym}`;
+            const tripleWin = document.createElement("span");
+            tripleWin.className = "bu-slot-paytable-win";
+            tripleWin.textContent = `+${payout.triple}`;
+            const pair = document.createElement("span");
+            pair.className = "bu-slot-paytable-symbols";
+            pair.textContent = `${sym}${sym}`;
+            const pairWin = document.createElement("span");
+            pairWin.className = "bu-slot-paytable-win";
+            pairWin.textContent = `+${payout.pair}`;
+            table.appendChild(triple);
+            table.appendChild(tripleWin);
+            table.appendChild(pair);
+            table.appendChild(pairWin);
+          }
+          panel.appendChild(table);
+
+          const { chance, expected } = payoutDistribution();
+          const odds = document.createElement("div");
+          odds.className = "bu-slot-history-date";
+          odds.textContent = `Szansa: trójka ${formatPercent(chance.triple)}, para ${formatPercent(chance.pair)} · średnio ${formatPoints(expected)} monety na spin`;
+          panel.appendChild(odds);
+
+          const historyHeading = document.createElement("div");
+          historyHeading.className = "bu-slot-paytable-head";
+          historyHeading.textContent = "Ostatnie spiny";
+          panel.appendChild(historyHeading);
+          const spins = loadStatistics().spinLog.slice(-10).reverse();
+          if (spins.length === 0) {
+            const empty = document.createElement("div");
+            empty.className = "bu-entries-empty";
+            empty.textContent = "Jeszcze nie było spinów.";
+            panel.appendChild(empty);
+            return;
+          }
+          const timeFmt = new Intl.DateTimeFormat("pl-PL", {
+            day: "numeric",
+            month: "short",
+            hour: "2-digit",
+            minute: "2-digit",
+          });
+          const net = spins.reduce(
+            (sum, spin) => sum + spin.payout - (spin.free ? 0 : 1),
+            0,
+          );
+          for (const spin of spins) {
+            const row = document.createElement("div");
+            row.className = "bu-slot-history-row";
+            const syms = document.createElement("span");
+            syms.className = "bu-slot-paytable-symbols";
+            syms.textContent = spin.symbols.join("");
+            const when = document.createElement("span");
+            when.className = "bu-slot-history-date";
+            when.textContent = `${timeFmt.format(new Date(spin.date))}${spin.free ? " · darmowy" : ""}`;
+            const win = document.createElement("span");
+            win.className = "bu-slot-paytable-win";
+            if (spin.payout === 0) win.classList.add("bu-slot-history-loss");
+            win.textContent = spin.payout > 0 ? `+${spin.payout}` : "0";
+            row.appendChild(syms);
+            row.appendChild(when);
+            row.appendChild(win);
+            panel.appendChild(row);
+          }
+          const summary = document.createElement("div");
+          summary.className = "bu-slot-history-summary";
+          summary.textContent = `Bilans ${spins.length} ostatnich: ${net > 0 ? "+" : ""}${net} monet`;
+          panel.appendChild(summary);
+        }
+
+        const calendarBtn = slotPanel.querySelector(
+          "#bu-slot-calendar-btn",
+        ) as HTMLElement | null;
+        const calendar = slotPanel.querySelector(
+          "#bu-slot-calendar",
+        ) as HTMLElement | null;
+
+        if (paytableBtn && paytable) {
+          paytableBtn.addEventListener("click", () => {
+            if (!paytable.hidden) {
+              paytable.hidden = true;
+              return;
+            }
+            if (calendar) calendar.hidden = true;
+            renderPaytable(paytable);
+            paytable.hidden = false;
+          });
+        }
+
+        if (calendarBtn && calendar) {
+          calendarBtn.addEventListener("click", () => {
+            if (!calendar.hidden) {
+              calendar.hidden = true;
+              return;
+            }
+            if (paytable) paytable.hidden = true;
+            renderStreakCalendar(calendar);
+            calendar.hidden = false;
+          });
+        }
+
         // Initial lever state based on coins
         refreshCoinDisplay();
 
         lever.addEventListener("click", () => {
           if (spinning) return;
           const currentStats = loadStatistics();
-          const freeSpinAvailable = hasFreeSpinToday();
+          const freeSpinAvailable = hasFreeSpin();
           if (currentStats.coins <= 0 && !freeSpinAvailable) {
             resultEl.textContent = "Brak monet!";
             resultEl.className = "bu-slot-result bu-slot-no-coins";
             return;
           }
+          if (paytable) paytable.hidden = true;
+          if (calendar) calendar.hidden = true;
           // Use free spin if available, otherwise spend a coin
           if (freeSpinAvailable) {
-            useFreeSpinToday();
+            useFreeSpin();
             refreshCoinDisplay();
           } else {
             updateStatistic("coins", -1);
@@ -894,11 +2305,11 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           resultEl.textContent = "";
           resultEl.className = "bu-slot-result";
 
-          // Pick random target for each reel
-          const targetIndices = [0, 1, 2].map(() =>
-            Math.floor(Math.random() * N),
+          // Outcome first; the reels only play it back
+          const { indices: targetIndices, symbols: results } = spinOutcome(
+            random,
+            reelSymbols,
           );
-          const results = targetIndices.map((i) => SLOT_EMOJIS[i]);
 
           // Lever animation reset
           setTimeout(() => lever.classList.remove("bu-lever-pulled"), 400);
@@ -912,17 +2323,23 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
           Promise.all(promises).then(() => {
             spinning = false;
-            if (results[0] === results[1] && results[1] === results[2]) {
-              resultEl.textContent = "🎉 JACKPOT! +10 monet!";
+            const payout = slotPayout(results, reelSymbols);
+            addSpinRecord({
+              date: Date.now(),
+              symbols: results,
+              payout: payout.coins,
+              free: freeSpinAvailable,
+            });
+            if (payout.coins > 0) updateStatistic("coins", payout.coins);
+            if (payout.kind === "triple") {
+              resultEl.textContent =
+                payout.coins >= JACKPOT_MIN
+                  ? `🎉 JACKPOT! +${payout.coins} monet!`
+                  : `🎉 Trzy ${payout.symbol}! +${payout.coins} monet!`;
               resultEl.classList.add("bu-slot-jackpot");
-              updateStatistic("coins", 10);
-              launchConfetti();
-            } else if (
-              results[0] === results[1] ||
-              results[1] === results[2] ||
-              results[0] === results[2]
-            ) {
-              resultEl.textContent = "😏 Prawie...";
+              launchConfetti(random);
+            } else if (payout.kind === "pair") {
+              resultEl.textContent = `😏 Para ${payout.symbol}! +${payout.coins}`;
               resultEl.classList.add("bu-slot-almost");
             } else {
               const msgs = [
@@ -932,8 +2349,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
                 "Jeszcze raz?",
                 "Nie poddawaj się!",
               ];
-              resultEl.textContent =
-                msgs[Math.floor(Math.random() * msgs.length)];
+              resultEl.textContent = pick(random, msgs);
             }
           });
         });
@@ -943,8 +2359,17 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         dashboard.querySelectorAll("usos-frame"),
       ) as HTMLElement[];
 
-      // Combine native frames + stats panel + slot machine into one list
-      const frames: HTMLElement[] = [statsPanel, slotPanel, ...usosFrames];
+      // Combine native frames + own panels into one list (serious mode
+      // leaves out the coin cards)
+      const frames: HTMLElement[] = [
+        statsPanel,
+        ...(seriousMode ? [] : [slotPanel]),
+        changesPanel,
+        gradesPanel,
+        achievementsPanel,
+        ...(seriousMode ? [] : [shopPanel]),
+        ...usosFrames,
+      ];
       const state = loadDashboardState();
 
       // Assign ids and collect default order
@@ -1069,11 +2494,9 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         });
 
         // For usos-frame: insert into the title slot; for custom panels: into the header
-        const titleEl = frame.classList.contains("bu-stats-panel")
-          ? frame.querySelector(".bu-stats-title")
-          : frame.classList.contains("bu-slot-panel")
-            ? frame.querySelector(".bu-slot-title")
-            : frame.querySelector('[slot="title"], h2[slot="title"]');
+        const titleEl = frame.matches("usos-frame")
+          ? frame.querySelector('[slot="title"], h2[slot="title"]')
+          : frame.querySelector(PANEL_TITLE_SEL);
         if (titleEl) {
           (titleEl as HTMLElement).style.display = "flex";
           (titleEl as HTMLElement).style.alignItems = "center";
@@ -1165,7 +2588,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       attachStatCardListeners(statsPanel);
 
       // Initialize slot machine
-      initSlotMachine();
+      if (!seriousMode) initSlotMachine(effectsRng);
 
       // Inject icons into usos-frame title headers
       injectFrameIcons(usosFrames);
@@ -1703,346 +3126,24 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
   async function run(): Promise<void> {
     try {
-      // Load extension-only storage caches before anything that needs them
-      await Promise.all([initStatsCache(), initDashboardCache()]);
-
-      injectShadowStyle(
-        ["main-panel"],
-        `
-    #page-body {
-      display: flex !important;
-      justify-content: center !important;
-      min-height: calc(100vh - 3.5rem) !important;
-    }
-`,
-      );
-
-      injectShadowStyle(
-        ["usos-frame"],
-        `
-    #header {
-      background: transparent !important;
-      color: var(--usos-text, #1e293b) !important;
-      font-size: 1rem;
-      text-decoration: none !important;
-    }
-    ::slotted(.datepicker-native-container) {
-      display: none !important;
-    }
-    .bu-frame-icon {
-      display: inline-flex !important;
-      align-items: center !important;
-      margin-right: 6px !important;
-      flex-shrink: 0 !important;
-    }
-    .bu-frame-icon svg {
-      width: 20px !important;
-      height: 20px !important;
-      stroke: var(--usos-primary, #3b82f6) !important;
-      fill: none !important;
-    }
-  `,
-      );
-
-      injectShadowStyle(
-        ["usos-frame", "usos-link"],
-        `
-     a {
-      text-transform: lowercase;
-      display: inline-block;
-    }
-     a::first-letter {
-      text-transform: uppercase !important;
-    }
-  `,
-      );
-
-      injectShadowStyle(
-        ["usos-selector", "text-field"],
-        `
-    #input-cont input,
-    #input-cont {
-      border-radius: 10px !important;
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-      border-color: var(--border, #DADADE) !important;
-    }
-    #input-cont input::placeholder {
-      color: var(--grey, #4D4D4D) !important;
-    }
-    #suggestions {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-      border-color: var(--border, #DADADE) !important;
-    }
-    #suggestions .item:hover,
-    #suggestions .item.selected {
-      background: var(--background-secondary, #EFEFF1) !important;
-    }
-    label {
-      color: var(--font-color, #1e293b) !important;
-    }
-  `,
-      );
-
-      // Style select-field shadow DOM
-      injectShadowStyle(
-        ["select-field"],
-        `
-    select {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-      border-color: var(--border, #DADADE) !important;
-      border-radius: 10px !important;
-      padding: 6px 10px !important;
-    }
-  `,
-      );
-
-      // Style usos-frame shadow internals for dark mode
-      injectShadowStyle(
-        ["usos-frame"],
-        `
-    :host {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-    }
-    #content {
-      color: var(--font-color, #1e293b) !important;
-    }
-  `,
-      );
-
-      // Style usos-tooltip and usos-dialog shadow DOM for dark mode
-      injectShadowStyle(
-        ["usos-tooltip"],
-        `
-    :host {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-      border-color: var(--border, #DADADE) !important;
-    }
-    .content {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #1e293b) !important;
-    }
-  `,
-      );
-
-      // Style tab-layout shadow DOM
-      injectShadowStyle(
-        ["tab-layout"],
-        `
-    :host {
-      color: var(--font-color, #1e293b) !important;
-    }
-    .tab {
-      color: var(--font-color, #1e293b) !important;
-      border-color: var(--border, #DADADE) !important;
-    }
-    .tab.active, .tab:hover {
-      color: var(--primary, #4F4C6A) !important;
-    }
-  `,
-      );
-
-      // Timetable – style shadow DOM (works in both light & dark via CSS vars on <html>)
-      injectShadowStyle(
-        ["usos-timetable"],
-        `
-    :host {
-      color: var(--font-color, #06022E) !important;
-    }
-    #hours > div > div:first-child {
-      color: var(--font-color, #06022E) !important;
-    }
-    #hours > div > div:nth-child(2)::after {
-      border-color: var(--border, #DADADE) !important;
-    }
-    :host > div:first-child {
-      border-color: var(--border, #DADADE) !important;
-    }
-    #timetable {
-      --timetable-color-1: var(--bu-tt-color-1, #CEDED9) !important;
-      --timetable-color-1-border: var(--bu-tt-color-1-border, HSL(161, 20%, 54%)) !important;
-      --timetable-color-2: var(--bu-tt-color-2, #FEEFD9) !important;
-      --timetable-color-2-border: var(--bu-tt-color-2-border, HSL(36, 95%, 62%)) !important;
-      --timetable-color-3: var(--bu-tt-color-3, #DBE4F3) !important;
-      --timetable-color-3-border: var(--bu-tt-color-3-border, HSL(218, 50%, 61%)) !important;
-      --timetable-color-4: var(--bu-tt-color-4, #E1D8E4) !important;
-      --timetable-color-4-border: var(--bu-tt-color-4-border, HSL(285, 18%, 57%)) !important;
-      --timetable-color-5: var(--bu-tt-color-5, #E5EEBE) !important;
-      --timetable-color-5-border: var(--bu-tt-color-5-border, HSL(71, 59%, 54%)) !important;
-      --timetable-color-6: var(--bu-tt-color-6, #FCF5C7) !important;
-      --timetable-color-6-border: var(--bu-tt-color-6-border, HSL(52, 90%, 58%)) !important;
-      --timetable-color-7: var(--bu-tt-color-7, #E1E1E6) !important;
-      --timetable-color-7-border: var(--bu-tt-color-7-border, HSL(240, 9%, 59%)) !important;
-      --timetable-color-8: var(--bu-tt-color-8, #EDDBDF) !important;
-      --timetable-color-8-border: var(--bu-tt-color-8-border, HSL(347, 33%, 59%)) !important;
-    }
-    #timetable > ::slotted(*) {
-      border-color: var(--border, #DADADE) !important;
-    }
-    .pseudo-header {
-      color: var(--font-color, #06022E) !important;
-    }
-  `,
-      );
-
-      // timetable-day – transparent bg in dark, original in light
-      injectShadowStyle(
-        ["timetable-day"],
-        `
-    :host {
-      background: var(--bu-tt-day-bg, #fafafa) !important;
-      border-color: var(--border, #DADADE) !important;
-    }
-  `,
-      );
-
-      injectShadowStyle(
-        ["timetable-entry"],
-        `
-    :host {
-      color: var(--font-color, #06022E) !important;
-    }
-    #przedmiot {
-      color: var(--font-color, #06022E) !important;
-    }
-    #info {
-      color: var(--font-color, #06022E) !important;
-      opacity: 0.85;
-    }
-    #time {
-      color: var(--font-color, #06022E) !important;
-      opacity: 0.85;
-    }
-    :host usos-dialog {
-      --primary: var(--background-secondary, #EFEFF1) !important;
-      --on-primary: var(--font-color, #06022E) !important;
-    }
-  `,
-      );
-
-      // Timetable entry → usos-dialog popup styling
-      injectShadowStyle(
-        ["timetable-entry", "usos-dialog"],
-        `
-    dialog {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    dialog::backdrop {
-      background: rgba(0, 0, 0, 0.6) !important;
-    }
-    #titlebar {
-      background: var(--background-secondary, #EFEFF1) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    #content {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    #close {
-      background: var(--font-color, #06022E) !important;
-    }
-    #close::before {
-      background: var(--background-secondary, #EFEFF1) !important;
-    }
-    #details {
-      color: var(--font-color, #06022E) !important;
-    }
-    #details a {
-      color: var(--primary, #818cf8) !important;
-    }
-  `,
-      );
-
-      // usos-dialog (standalone, e.g. export dialog) shadow DOM
-      injectShadowStyle(
-        ["usos-dialog"],
-        `
-    dialog {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    dialog::backdrop {
-      background: rgba(0, 0, 0, 0.6) !important;
-    }
-    #titlebar {
-      background: var(--background-secondary, #EFEFF1) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    #content {
-      background: var(--background, #fff) !important;
-      color: var(--font-color, #06022E) !important;
-    }
-    #close {
-      background: var(--font-color, #06022E) !important;
-    }
-    #close::before {
-      background: var(--background-secondary, #EFEFF1) !important;
-    }
-  `,
-      );
-
-      // help-dialog shadow DOM
-      injectShadowStyle(
-        ["help-dialog"],
-        `
-    :host {
-      color: var(--font-color, #06022E) !important;
-    }
-  `,
-      );
-
-      // app-header (school banner) – keep text white/light regardless of --on-primary
-      injectShadowStyle(
-        ["app-header"],
-        `
-    :host > div,
-    .content,
-    .content span {
-      color: #ffffff !important;
-    }
-  `,
-      );
-
-      // usos-module-link-tile (Indeks page tiles) – readable colors in dark mode
-      injectShadowStyle(
-        ["usos-module-link-tile"],
-        `
-    a {
-      color: inherit !important;
-      text-decoration: none !important;
-    }
-    #icon {
-      background-color: var(--font-color, #4F4C6A) !important;
-    }
-    #title {
-      color: var(--font-color, var(--primary, #4F4C6A)) !important;
-    }
-    #title ::slotted(*) {
-      color: var(--font-color, var(--primary, #4F4C6A)) !important;
-    }
-    #text {
-      color: var(--on-background, #333) !important;
-    }
-    #text ::slotted(*) {
-      color: var(--on-background, #333) !important;
-    }
-  `,
-        document.body,
-        true, // useAdopted – must win over Lit's adopted stylesheets
-      );
-
-      injectShadowStyle(
-        ["menu-left"],
-        `
-  /* Hide empty separators */
-  ::slotted(li:empty) { display: none !important; }
-  `,
+      // Upgrade persisted data to the current schema, then load
+      // extension-only storage caches before anything that needs them
+      await runMigrations(PROFILE_HOST).catch((err) =>
+        console.warn("[Better USOS] runMigrations error:", err),
       );
+      await Promise.all([
+        initStatsCache(),
+        initDashboardCache(),
+        initShopCache(),
+        initStreakCache(),
+        initSeriousMode(),
+        initCustomThemes(),
+      ]);
+      recordDailyVisit();
+
+      // Dark-mode and layout fixes inside web component shadow roots
+      styleShadowTree(document.body);
+      observeShadowHosts();
 
       setupDashboard();
       // Inject icons into sidebar links
@@ -2054,15 +3155,7 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         await setupHiddenGrades();
       }
 
-      document.querySelectorAll("usos-link span").forEach((el) => {
-        if (el.textContent?.includes("więcej")) {
-          el.textContent = "Więcej";
-        }
-      });
-
-      document.querySelectorAll("usos-link").forEach((link) => {
-        link.removeAttribute("icon-location");
-      });
+      tweakUsosLinks(document);
 
       // Apply global settings (banner visibility, theme)
       if (
@@ -2110,120 +3203,1003 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           collapseFlatSemesters(parentUl);
         }
       }
-    } catch (err) {
-      console.warn("[Better USOS] collapseSemesters error:", err);
+    } catch (err) {
+      console.warn("[Better USOS] collapseSemesters error:", err);
+    }
+  }
+
+  /** Layout A – "Zajęcia studenta": each <li> is already one semester group */
+  function collapseNestedSemesters(parentUl: Element): void {
+    const semesters = Array.from(parentUl.children).filter(
+      (el): el is HTMLLIElement =>
+        el.tagName === "LI" && !!el.querySelector("ul.lista-zajec"),
+    );
+
+    if (semesters.length <= 1) return;
+
+    semesters.forEach((li, index) => {
+      const srSpan = li.querySelector(
+        ":scope > span.screen-reader-only",
+      ) as HTMLElement | null;
+      const courseList = li.querySelector(
+        ":scope > ul.lista-zajec",
+      ) as HTMLElement | null;
+      if (!courseList) return;
+
+      const labelText = srSpan?.textContent?.trim() || `Semestr ${index + 1}`;
+
+      addSemesterToggle(li, courseList, labelText, index > 0);
+
+      if (srSpan) srSpan.style.display = "none";
+    });
+  }
+
+  /** Layout B – "Sprawdziany studenta": flat <li> list, group by span.note text */
+  function collapseFlatSemesters(parentUl: Element): void {
+    const items = Array.from(parentUl.querySelectorAll(":scope > li"));
+    if (items.length === 0) return;
+
+    // Group items by their semester code
+    const groups: { code: string; items: HTMLLIElement[] }[] = [];
+    let currentCode = "";
+
+    for (const li of items) {
+      const noteEl = li.querySelector("span.note, div > span.note");
+      const code = noteEl?.textContent?.trim() ?? "";
+      if (code !== currentCode || groups.length === 0) {
+        groups.push({ code, items: [li as HTMLLIElement] });
+        currentCode = code;
+      } else {
+        groups[groups.length - 1].items.push(li as HTMLLIElement);
+      }
+    }
+
+    if (groups.length <= 1) return;
+
+    // Wrap each group in a container <li> with a toggle
+    for (let i = groups.length - 1; i >= 0; i--) {
+      const group = groups[i];
+      const wrapperLi = document.createElement("li");
+      wrapperLi.className = "bu-semester-group";
+
+      const innerUl = document.createElement("ul");
+      innerUl.className = "no-bullets bu-semester-items";
+
+      for (const item of group.items) {
+        innerUl.appendChild(item);
+      }
+
+      wrapperLi.appendChild(innerUl);
+
+      const label = semesterLabel(group.code);
+      addSemesterToggle(wrapperLi, innerUl, label, i > 0);
+
+      // Insert the wrapper where the first item of this group was
+      parentUl.insertBefore(wrapperLi, parentUl.children[0] || null);
+    }
+  }
+
+  /** Create a toggle button and optionally collapse the content */
+  function addSemesterToggle(
+    container: HTMLElement,
+    content: HTMLElement,
+    label: string,
+    startCollapsed: boolean,
+  ): void {
+    const header = document.createElement("button");
+    header.type = "button";
+    header.className = "bu-semester-toggle";
+    const chevron = document.createElement("span");
+    chevron.className = "bu-semester-chevron";
+    chevron.textContent = startCollapsed ? "▸" : "▾";
+    header.appendChild(chevron);
+    header.appendChild(document.createTextNode(" " + label));
+    header.title = "Kliknij, aby rozwinąć / zwinąć";
+
+    if (startCollapsed) {
+      content.classList.add("bu-collapsed");
+    }
+
+    header.addEventListener("click", () => {
+      const isCollapsed = content.classList.toggle("bu-collapsed");
+      chevron.textContent = isCollapsed ? "▸" : "▾";
+    });
+
+    container.insertBefore(header, content);
+  }
+
+  /**
+   * One grade node of the #drzewo tree. Nodes without a numeric value yet
+   * (no `cell`) are kept so the solver can treat them as unknowns.
+   */
+  interface GradeNode extends TreeGrade {
+    cell: HTMLElement | null;
+  }
+
+  function formatPoints(value: number): string {
+    return value.toLocaleString("pl-PL", { maximumFractionDigits: 2 });
+  }
+
+  function formatPercent(ratio: number): string {
+    return `${(ratio * 100).toLocaleString("pl-PL", { maximumFractionDigits: 1 })}%`;
+  }
+
+  function formatGrade(grade: number): string {
+    return grade.toFixed(1);
+  }
+
+  /** A node counts as known only once it has a value and is shown */
+  function isGradeNodeKnown(node: GradeNode): boolean {
+    return (
+      node.value !== null &&
+      !!node.cell &&
+      node.cell.classList.contains("bu-grade-revealed")
+    );
+  }
+
+  interface GradeSummary {
+    points: number;
+    maxPoints: number;
+    /** points / maxPoints, null when no revealed node has a max */
+    ratio: number | null;
+    /** Σ w·(value/max) / Σ w over revealed nodes, null when all weights are 0 */
+    weightedRatio: number | null;
+    revealedCount: number;
+    /** Number of nodes with a numeric value (revealed or not) */
+    gradedCount: number;
+  }
+
+  /**
+   * Sum known nodes only – hidden grades must not leak through the totals.
+   * `isKnown` defaults to the nodes shown on the page.
+   */
+  function computeGradeSummary(
+    nodes: GradeNode[],
+    weights: Record<string, number>,
+    isKnown: (node: GradeNode) => boolean = isGradeNodeKnown,
+  ): GradeSummary {
+    let points = 0;
+    let maxPoints = 0;
+    let weightedSum = 0;
+    let weightTotal = 0;
+    let revealedCount = 0;
+    let gradedCount = 0;
+    nodes.forEach((node) => {
+      if (node.value !== null) gradedCount++;
+      if (!isKnown(node)) return;
+      revealedCount++;
+      const value = node.value as number;
+      if (node.max === null || node.max <= 0) return;
+      points += value;
+      maxPoints += node.max;
+      const weight = weights[node.id] ?? 1;
+      if (weight > 0) {
+        weightedSum += weight * (value / node.max);
+        weightTotal += weight;
+      }
+    });
+    return {
+      points,
+      maxPoints,
+      ratio: maxPoints > 0 ? points / maxPoints : null,
+      weightedRatio: weightTotal > 0 ? weightedSum / weightTotal : null,
+      revealedCount,
+      gradedCount,
+    };
+  }
+
+  const THRESHOLD_PRESETS: {
+    id: string;
+    label: string;
+    mins: readonly number[];
+  }[] = [
+    {
+      id: "standard",
+      label: "50 / 60 / 70 / 80 / 90",
+      mins: [50, 60, 70, 80, 90],
+    },
+    {
+      id: "plus-one",
+      label: "51 / 61 / 71 / 81 / 91",
+      mins: [51, 61, 71, 81, 91],
+    },
+    {
+      id: "strict",
+      label: "55 / 65 / 75 / 85 / 95",
+      mins: [55, 65, 75, 85, 95],
+    },
+    {
+      id: "compact",
+      label: "50 / 58 / 67 / 76 / 85",
+      mins: [50, 58, 67, 76, 85],
+    },
+    { id: "high", label: "60 / 68 / 76 / 84 / 92", mins: [60, 68, 76, 84, 92] },
+  ];
+
+  function thresholdsFromMins(mins: readonly number[]): GradeThreshold[] {
+    return PASSING_GRADES.map((grade, i) => ({ grade, min: mins[i] }));
+  }
+
+  /** Highest grade whose threshold is met; 2.0 when none is */
+  function predictGrade(ratio: number, thresholds: GradeThreshold[]): number {
+    let result = 2.0;
+    for (const t of thresholds) {
+      if (ratio * 100 + 1e-9 >= t.min && t.grade > result) result = t.grade;
+    }
+    return result;
+  }
+
+  interface GradeRequirement {
+    /** Fraction of max needed on every unknown node, null if none are left */
+    ratio: number | null;
+    /** Points needed in total across the unknown nodes */
+    points: number;
+    maxPoints: number;
+    unknownCount: number;
+  }
+
+  /**
+   * What is needed on the unknown (hidden or not yet graded) nodes for the
+   * weighted score to reach `minPercent`, assuming the same fraction of max
+   * is scored on each of them.
+   */
+  function solveRequirement(
+    nodes: GradeNode[],
+    weights: Record<string, number>,
+    minPercent: number,
+  ): GradeRequirement {
+    let knownSum = 0;
+    let weightTotal = 0;
+    let unknownWeight = 0;
+    let maxPoints = 0;
+    let unknownCount = 0;
+    nodes.forEach((node) => {
+      if (node.max === null || node.max <= 0) return;
+      const weight = weights[node.id] ?? 1;
+      if (weight <= 0) return;
+      weightTotal += weight;
+      if (isGradeNodeKnown(node)) {
+        knownSum += weight * ((node.value as number) / node.max);
+      } else {
+        unknownWeight += weight;
+        maxPoints += node.max;
+        unknownCount++;
+      }
+    });
+    if (unknownWeight === 0) {
+      return { ratio: null, points: 0, maxPoints: 0, unknownCount: 0 };
+    }
+    const ratio = ((minPercent / 100) * weightTotal - knownSum) / unknownWeight;
+    return {
+      ratio,
+      points: Math.max(0, ratio) * maxPoints,
+      maxPoints,
+      unknownCount,
+    };
+  }
+
+  /**
+   * Summary panel above the grades tree: points vs. maximum, percentage,
+   * a weighted score with per-node weights, the predicted grade from a
+   * per-subject threshold table and a solver for the remaining nodes.
+   * Returns a function that recomputes the panel (call it after reveals).
+   * Every recomputation is also stored for the dashboard overview card,
+   * counting only the grades in `revealed`: "Od razu" shows grades
+   * without revealing them, which must not fill the overview or unlock
+   * achievements.
+   */
+  async function setupGradeSummary(
+    container: Element,
+    nodes: GradeNode[],
+    revealed: ReadonlySet<string>,
+    wezId: string,
+    subject: string,
+    url: string,
+  ): Promise<() => void> {
+    const weightsKey = subjectKey(WEIGHTS_KEY_PREFIX, wezId, PROFILE_HOST);
+    const thresholdsKey = subjectKey(
+      THRESHOLDS_KEY_PREFIX,
+      wezId,
+      PROFILE_HOST,
+    );
+    const summaryKey = subjectKey(SUMMARY_KEY_PREFIX, wezId, PROFILE_HOST);
+
+    let weights: Record<string, number> = {};
+    let thresholds = thresholdsFromMins(THRESHOLD_PRESETS[0].mins);
+    try {
+      const res = await chrome.storage.local.get([weightsKey, thresholdsKey]);
+      const storedWeights = res[weightsKey];
+      if (storedWeights !== undefined) {
+        const errors: string[] = [];
+        weights = parseWeights(storedWeights, weightsKey, errors);
+        // One-time conversion from positional keys (schema v1)
+        let converted = false;
+        for (const [key, weight] of Object.entries(weights)) {
+          if (!/^\d+$/.test(key)) continue;
+          delete weights[key];
+          const node = nodes[Number(key)];
+          if (node && !(node.id in weights)) weights[node.id] = weight;
+          converted = true;
+        }
+        if (converted || errors.length > 0) {
+          chrome.storage.local.set({ [weightsKey]: weights });
+        }
+      }
+      const storedThresholds = res[thresholdsKey];
+      if (storedThresholds !== undefined) {
+        thresholds =
+          parseThresholds(storedThresholds, thresholdsKey, []) ?? thresholds;
+      }
+    } catch {
+      /* ignore */
+    }
+
+    const saveWeights = (): void => {
+      try {
+        chrome.storage.local.set({ [weightsKey]: weights });
+      } catch {
+        // ignore
+      }
+    };
+
+    const saveThresholds = (): void => {
+      try {
+        chrome.storage.local.set({ [thresholdsKey]: thresholds });
+      } catch {
+        // ignore
+      }
+    };
+
+    const saveSummary = (summary: SubjectSummary): void => {
+      try {
+        chrome.storage.local.set({ [summaryKey]: summary });
+      } catch {
+        // ignore
+      }
+    };
+
+    const panel = document.createElement("div");
+    panel.className = "bu-grade-summary";
+
+    const header = document.createElement("div");
+    header.className = "bu-grade-summary-header";
+    const title = document.createElement("span");
+    title.className = "bu-grade-summary-title";
+    title.textContent = "Podsumowanie punktów";
+    const toggles = document.createElement("div");
+    toggles.className = "bu-grade-summary-toggles";
+    header.appendChild(title);
+    header.appendChild(toggles);
+    panel.appendChild(header);
+
+    const statsRow = document.createElement("div");
+    statsRow.className = "bu-grade-summary-stats";
+    const makeStat = (label: string): HTMLElement => {
+      const stat = document.createElement("div");
+      stat.className = "bu-grade-summary-stat";
+      const value = document.createElement("span");
+      value.className = "bu-grade-summary-value";
+      const labelEl = document.createElement("span");
+      labelEl.className = "bu-grade-summary-label";
+      labelEl.textContent = label;
+      stat.appendChild(value);
+      stat.appendChild(labelEl);
+      statsRow.appendChild(stat);
+      return value;
+    };
+    const pointsEl = makeStat("Punkty");
+    const percentEl = makeStat("Procent");
+    const weightedEl = makeStat("Wynik ważony");
+    const gradeEl = makeStat("Przewidywana ocena");
+    panel.appendChild(statsRow);
+
+    const note = document.createElement("div");
+    note.className = "bu-grade-summary-note";
+    panel.appendChild(note);
+
+    // "What do I need" solver
+    const solver = document.createElement("div");
+    solver.className = "bu-grade-solver";
+    const solverLabel = document.createElement("span");
+    solverLabel.textContent = "Cel:";
+    const targetSelect = document.createElement("select");
+    targetSelect.className = "bu-grade-solver-select";
+    for (const grade of PASSING_GRADES) {
+      const opt = document.createElement("option");
+      opt.value = String(grade);
+      opt.textContent = formatGrade(grade);
+      if (grade === 4.0) opt.selected = true;
+      targetSelect.appendChild(opt);
+    }
+    const solverResult = document.createElement("span");
+    solverResult.className = "bu-grade-solver-result";
+    solver.appendChild(solverLabel);
+    solver.appendChild(targetSelect);
+    solver.appendChild(solverResult);
+    panel.appendChild(solver);
+    targetSelect.addEventListener("change", () => refresh());
+
+    /** Collapsible section opened by a header button */
+    const addSection = (label: string): HTMLElement => {
+      const section = document.createElement("div");
+      section.className = "bu-grade-section bu-grade-section-collapsed";
+      const toggle = document.createElement("button");
+      toggle.type = "button";
+      toggle.className = "bu-grade-summary-toggle";
+      toggle.textContent = `▸ ${label}`;
+      toggle.addEventListener("click", () => {
+        const collapsed = section.classList.toggle(
+          "bu-grade-section-collapsed",
+        );
+        toggle.textContent = `${collapsed ? "▸" : "▾"} ${label}`;
+      });
+      toggles.appendChild(toggle);
+      panel.appendChild(section);
+      return section;
+    };
+
+    // Weight editor – one row per node that has a max value
+    const weightList = addSection("Wagi");
+    nodes.forEach((node) => {
+      if (node.max === null || node.max <= 0) return;
+      const row = document.createElement("label");
+      row.className = "bu-grade-weight-row";
+      const name = document.createElement("span");
+      name.className = "bu-grade-weight-name";
+      name.textContent = node.name;
+      const max = document.createElement("span");
+      max.className = "bu-grade-weight-max";
+      max.textContent = `max ${formatPoints(node.max)}`;
+      const input = document.createElement("input");
+      input.type = "number";
+      input.min = "0";
+      input.step = "0.1";
+      input.className = "bu-grade-weight-input";
+      input.value = String(weights[node.id] ?? 1);
+      input.addEventListener("change", () => {
+        const parsed = parseFloat(input.value.replace(",", "."));
+        if (Number.isNaN(parsed) || parsed < 0) {
+          input.value = String(weights[node.id] ?? 1);
+          return;
+        }
+        if (parsed === 1) delete weights[node.id];
+        else weights[node.id] = parsed;
+        saveWeights();
+        refresh();
+      });
+      row.appendChild(name);
+      row.appendChild(max);
+      row.appendChild(input);
+      weightList.appendChild(row);
+    });
+
+    // Threshold table – preset picker + one input per grade
+    const thresholdSection = addSection("Progi");
+    const presetSelect = document.createElement("select");
+    presetSelect.className = "bu-grade-solver-select";
+    const customOpt = document.createElement("option");
+    customOpt.value = "";
+    customOpt.textContent = "Własne progi";
+    presetSelect.appendChild(customOpt);
+    for (const preset of THRESHOLD_PRESETS) {
+      const opt = document.createElement("option");
+      opt.value = preset.id;
+      opt.textContent = preset.label;
+      presetSelect.appendChild(opt);
+    }
+    thresholdSection.appendChild(presetSelect);
+
+    const thresholdInputs: HTMLInputElement[] = [];
+    thresholds.forEach((t, i) => {
+      const row = document.createElement("label");
+      row.className = "bu-grade-weight-row";
+      const name = document.createElement("span");
+      name.className = "bu-grade-weight-name";
+      name.textContent = `${formatGrade(t.grade)} od`;
+      const input = document.createElement("input");
+      input.type = "number";
+      input.min = "0";
+      input.max = "100";
+      input.step = "1";
+      input.className = "bu-grade-weight-input";
+      input.value = String(t.min);
+      input.addEventListener("change", () => {
+        const parsed = parseFloat(input.value.replace(",", "."));
+        if (
+          Number.isNaN(parsed) ||
+          parsed < 0 ||
+          parsed > 100 ||
+          parsed < (thresholds[i - 1]?.min ?? 0) ||
+          parsed > (thresholds[i + 1]?.min ?? 100)
+        ) {
+          input.value = String(thresholds[i].min);
+          return;
+        }
+        thresholds[i] = { ...thresholds[i], min: parsed };
+        syncPreset();
+        saveThresholds();
+        refresh();
+      });
+      const unit = document.createElement("span");
+      unit.className = "bu-grade-weight-max";
+      unit.textContent = "%";
+      row.appendChild(name);
+      row.appendChild(input);
+      row.appendChild(unit);
+      thresholdInputs.push(input);
+      thresholdSection.appendChild(row);
+    });
+
+    function syncPreset(): void {
+      const match = THRESHOLD_PRESETS.find((p) =>
+        p.mins.every((min, i) => thresholds[i].min === min),
+      );
+      presetSelect.value = match?.id ?? "";
+    }
+    syncPreset();
+
+    presetSelect.addEventListener("change", () => {
+      const preset = THRESHOLD_PRESETS.find((p) => p.id === presetSelect.value);
+      if (!preset) return;
+      thresholds = thresholdsFromMins(preset.mins);
+      thresholds.forEach((t, i) => (thresholdInputs[i].value = String(t.min)));
+      saveThresholds();
+      refresh();
+    });
+
+    function refresh(): void {
+      const summary = computeGradeSummary(nodes, weights);
+      pointsEl.textContent =
+        summary.maxPoints > 0
+          ? `${formatPoints(summary.points)} / ${formatPoints(summary.maxPoints)}`
+          : "–";
+      percentEl.textContent =
+        summary.ratio !== null ? formatPercent(summary.ratio) : "–";
+      weightedEl.textContent =
+        summary.weightedRatio !== null
+          ? formatPercent(summary.weightedRatio)
+          : "–";
+      gradeEl.textContent =
+        summary.weightedRatio !== null
+          ? formatGrade(predictGrade(summary.weightedRatio, thresholds))
+          : "–";
+      const stored = computeGradeSummary(
+        nodes,
+        weights,
+        (node) => node.value !== null && revealed.has(node.id),
+      );
+      note.textContent = `Odsłonięte oceny: ${stored.revealedCount} z ${stored.gradedCount}`;
+      saveSummary({
+        subject,
+        url,
+        points: stored.points,
+        maxPoints: stored.maxPoints,
+        grade:
+          stored.weightedRatio !== null
+            ? predictGrade(stored.weightedRatio, thresholds)
+            : null,
+        revealedCount: stored.revealedCount,
+        gradedCount: stored.gradedCount,
+        updated: Date.now(),
+      });
+
+      const target = parseFloat(targetSelect.value);
+      const threshold = thresholds.find((t) => t.grade === target);
+      if (!threshold) return;
+      const req = solveRequirement(nodes, weights, threshold.min);
+      if (req.ratio === null) {
+        const reached =
+          summary.weightedRatio !== null &&
+          predictGrade(summary.weightedRatio, thresholds) >= target;
+        solverResult.textContent = reached
+          ? "Cel osiągnięty."
+          : "Brak pozostałych ocen – cel nieosiągnięty.";
+      } else if (req.ratio <= 0) {
+        solverResult.textContent = "Cel już zapewniony, niezależnie od reszty.";
+      } else if (req.ratio > 1) {
+        solverResult.textContent = `Nieosiągalne – potrzeba ${formatPercent(req.ratio)} z pozostałych (${req.unknownCount}).`;
+      } else {
+        solverResult.textContent = `Potrzeba ${formatPercent(req.ratio)} z pozostałych (${req.unknownCount}): ${formatPoints(req.points)} / ${formatPoints(req.maxPoints)} pkt.`;
+      }
     }
+
+    container.insertBefore(panel, container.firstChild);
+    return refresh;
   }
 
-  /** Layout A – "Zajęcia studenta": each <li> is already one semester group */
-  function collapseNestedSemesters(parentUl: Element): void {
-    const semesters = Array.from(parentUl.children).filter(
-      (el): el is HTMLLIElement =>
-        el.tagName === "LI" && !!el.querySelector("ul.lista-zajec"),
-    );
+  /** Number of histogram bins, from the popup setting */
+  let histogramBins: number = DEFAULT_HISTOGRAM_BINS;
+  /** Re-renders the open histograms of the current grades page */
+  let refreshHistograms: (() => void) | null = null;
 
-    if (semesters.length <= 1) return;
+  /**
+   * Grades of the same kind share a name up to trailing numbering, so
+   * "Kolokwium 1" and "Kolokwium 2" are compared with each other.
+   */
+  function gradeKind(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[\s#.:-]*\d+\s*$/, "")
+      .trim();
+  }
 
-    semesters.forEach((li, index) => {
-      const srSpan = li.querySelector(
-        ":scope > span.screen-reader-only",
-      ) as HTMLElement | null;
-      const courseList = li.querySelector(
-        ":scope > ul.lista-zajec",
-      ) as HTMLElement | null;
-      if (!courseList) return;
+  function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+      ? sorted[mid]
+      : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
 
-      const labelText = srSpan?.textContent?.trim() || `Semestr ${index + 1}`;
+  /** Index of the bin a value/max ratio falls into; 100% goes to the last one */
+  function histogramBin(ratio: number, bins: number): number {
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    return Math.min(bins - 1, Math.floor(clamped * bins));
+  }
 
-      addSemesterToggle(li, courseList, labelText, index > 0);
+  /**
+   * Ratios of all recorded (revealed) grades of a kind, taken from the
+   * reveal log. Re-reveals of the same grade count once.
+   */
+  function kindRatios(kind: string): number[] {
+    const latest = new Map<string, number>();
+    for (const event of loadStatistics().revealLog) {
+      if (event.max === null || event.max <= 0) continue;
+      if (gradeKind(event.name) !== kind) continue;
+      latest.set(`${event.subject}|${event.name}`, event.value / event.max);
+    }
+    return Array.from(latest.values());
+  }
 
-      if (srSpan) srSpan.style.display = "none";
+  /**
+   * Expandable score distribution for every row with a max. The histogram
+   * compares our grades of the same kind across subjects; the own score,
+   * the subject mean and the median only use revealed nodes.
+   */
+  function setupGradeHistograms(
+    nodes: GradeNode[],
+    rows: Map<Element, string>,
+  ): () => void {
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const renderers: (() => void)[] = [];
+
+    const subjectLine = (): string => {
+      const ratios = nodes
+        .filter(
+          (node) => isGradeNodeKnown(node) && node.max !== null && node.max > 0,
+        )
+        .map((node) => (node.value as number) / (node.max as number));
+      if (ratios.length === 0) return "Brak odsłoniętych ocen w przedmiocie.";
+      const mean = ratios.reduce((a, b) => a + b, 0) / ratios.length;
+      return `Przedmiot: średnia ${formatPercent(mean)}, mediana ${formatPercent(median(ratios) as number)} (${ratios.length} ocen)`;
+    };
+
+    rows.forEach((id, row) => {
+      const node = byId.get(id);
+      const nameTd = row.querySelector(':scope > td[style*="200px"]');
+      if (!node || node.max === null || node.max <= 0 || !nameTd) return;
+
+      const toggle = document.createElement("button");
+      toggle.type = "button";
+      toggle.className = "bu-hist-toggle";
+      toggle.textContent = "Rozkład";
+      toggle.setAttribute("aria-expanded", "false");
+      nameTd.appendChild(toggle);
+
+      const detailRow = document.createElement("tr");
+      detailRow.className = "bu-hist-row";
+      const detailTd = document.createElement("td");
+      detailTd.colSpan = row.querySelectorAll(":scope > td").length || 1;
+      const detail = document.createElement("div");
+      detail.className = "bu-hist";
+      detailTd.appendChild(detail);
+      detailRow.appendChild(detailTd);
+
+      const render = (): void => {
+        if (!detailRow.isConnected) return;
+        detail.replaceChildren();
+        const bins = histogramBins;
+        const kind = gradeKind(node.name);
+        const counts = new Array<number>(bins).fill(0);
+        const ratios = kindRatios(kind);
+        for (const ratio of ratios) counts[histogramBin(ratio, bins)]++;
+        const peak = Math.max(1, ...counts);
+
+        const known = isGradeNodeKnown(node);
+        const ownRatio = known
+          ? (node.value as number) / (node.max as number)
+          : null;
+        const ownBin = ownRatio === null ? -1 : histogramBin(ownRatio, bins);
+        // Same classification as the grade cell (perfect / ≥ 90% / < 50%)
+        const cell = node.cell;
+        const ownClass = !cell
+          ? ""
+          : cell.dataset.buPerfect
+            ? "bu-hist-own-perfect"
+            : cell.dataset.buHigh
+              ? "bu-hist-own-high"
+              : cell.dataset.buLow
+                ? "bu-hist-own-low"
+                : "";
+
+        const chart = document.createElement("div");
+        chart.className = "bu-hist-bars";
+        const step = 100 / bins;
+        counts.forEach((count, i) => {
+          const from = Math.round(i * step);
+          const to = Math.round((i + 1) * step);
+          const bar = document.createElement("div");
+          bar.className = "bu-hist-bar";
+          if (i === ownBin) {
+            bar.classList.add("bu-hist-bar-own");
+            if (ownClass) bar.classList.add(ownClass);
+          }
+          bar.title = `${from}–${to}%: ${count}`;
+          const fill = document.createElement("span");
+          fill.className = "bu-hist-fill";
+          fill.style.height = `${(count / peak) * 100}%`;
+          bar.appendChild(fill);
+          chart.appendChild(bar);
+        });
+        detail.appendChild(chart);
+
+        const axis = document.createElement("div");
+        axis.className = "bu-hist-axis";
+        for (const label of ["0%", "50%", "100%"]) {
+          const span = document.createElement("span");
+          span.textContent = label;
+          axis.appendChild(span);
+        }
+        detail.appendChild(axis);
+
+        const own = document.createElement("div");
+        own.className = "bu-hist-note";
+        const kindLabel = `„${kind || node.name}”`;
+        if (ownRatio === null) {
+          own.textContent = `${ratios.length} ocen typu ${kindLabel}. Odsłoń ocenę, aby zobaczyć swoją pozycję.`;
+        } else {
+          const from = Math.round(ownBin * step);
+          const to = Math.round((ownBin + 1) * step);
+          own.textContent = `Twój wynik: ${formatPercent(ownRatio)} (przedział ${from}–${to}%) na tle ${ratios.length} ocen typu ${kindLabel}.`;
+        }
+        detail.appendChild(own);
+
+        const subject = document.createElement("div");
+        subject.className = "bu-hist-note";
+        subject.textContent = subjectLine();
+        detail.appendChild(subject);
+      };
+      renderers.push(render);
+
+      toggle.addEventListener("click", (e) => {
+        e.stopPropagation();
+        if (detailRow.isConnected) {
+          detailRow.remove();
+          toggle.setAttribute("aria-expanded", "false");
+          return;
+        }
+        row.after(detailRow);
+        toggle.setAttribute("aria-expanded", "true");
+        render();
+      });
     });
+
+    return () => renderers.forEach((render) => render());
   }
 
-  /** Layout B – "Sprawdziany studenta": flat <li> list, group by span.note text */
-  function collapseFlatSemesters(parentUl: Element): void {
-    const items = Array.from(parentUl.querySelectorAll(":scope > li"));
-    if (items.length === 0) return;
+  /** Overlay texts per shop item value; "default" is the built-in pair */
+  const OVERLAY_TEXTS: Record<string, { defeated: string; failed: string }> = {
+    default: { defeated: "YOU DEFEATED", failed: "YOU FAILED" },
+    elden: { defeated: "ENEMY FELLED", failed: "YOU DIED" },
+    polish: { defeated: "ZALICZONE", failed: "OBLANE" },
+  };
 
-    // Group items by their semester code
-    const groups: { code: string; items: HTMLLIElement[] }[] = [];
-    let currentCode = "";
+  /** Grade reveal confetti: emoji pieces or an extra class on the dots */
+  const CONFETTI_STYLES: Record<
+    string,
+    { emoji?: string[]; className?: string }
+  > = {
+    default: {},
+    stars: { emoji: ["⭐", "✨", "🌟"] },
+    gold: { className: "bu-confetti-gold" },
+  };
 
-    for (const li of items) {
-      const noteEl = li.querySelector("span.note, div > span.note");
-      const code = noteEl?.textContent?.trim() ?? "";
-      if (code !== currentCode || groups.length === 0) {
-        groups.push({ code, items: [li as HTMLLIElement] });
-        currentCode = code;
-      } else {
-        groups[groups.length - 1].items.push(li as HTMLLIElement);
-      }
+  let overlayTexts = OVERLAY_TEXTS.default;
+  let confettiStyle = CONFETTI_STYLES.default;
+  let reelSymbols: string[] = SLOT_EMOJIS;
+  /** Set by the slot machine to redraw its reels with new symbols */
+  let refreshSlotReels: (() => void) | null = null;
+
+  /** Apply the equipped shop items */
+  function applyCosmetics(): void {
+    const palette = equippedValue(_shopCache, "palette");
+    if (palette !== cosmeticPalette) {
+      cosmeticPalette = palette;
+      applyPalette(currentThemeId);
     }
+    overlayTexts =
+      OVERLAY_TEXTS[equippedValue(_shopCache, "overlay") ?? "default"] ??
+      OVERLAY_TEXTS.default;
+    confettiStyle =
+      CONFETTI_STYLES[equippedValue(_shopCache, "confetti") ?? "default"] ??
+      CONFETTI_STYLES.default;
+    const reels = getReelSet(equippedValue(_shopCache, "reels"));
+    if (reels !== reelSymbols) {
+      reelSymbols = reels;
+      refreshSlotReels?.();
+    }
+  }
 
-    if (groups.length <= 1) return;
-
-    // Semester code → friendly name map
-    const codeToLabel = (code: string): string => {
-      // e.g. "2025Z" → "Semestr zimowy 2025/2026", "2026L" → "Semestr letni 2025/2026"
-      const match = code.match(/^(\d{4})([ZL])$/i);
-      if (!match) return code || "Inny semestr";
-      const year = parseInt(match[1], 10);
-      const season = match[2].toUpperCase();
-      if (season === "Z") return `Semestr zimowy ${year}/${year + 1}`;
-      return `Semestr letni ${year - 1}/${year}`;
-    };
+  /** When the last Dark Souls overlay started, for queueing the next one */
+  let lastOverlayAt = 0;
+  const OVERLAY_MS = 5000;
+
+  function showDarkSoulsNotification(text: string): void {
+    if (seriousMode) return;
+    lastOverlayAt = Math.max(lastOverlayAt, Date.now());
+    const safe = escapeHTML(text);
+    const container = document.createElement("div");
+    container.classList.add("bu-ds-notification-screen");
+    let glow = "";
+    // adding glow effect
+    for (let i = 0; i < 8; i++) {
+      const time = (8 + i / 2).toFixed(1);
+      const delay = (i / 15).toFixed(1);
+      glow += `<span style="animation-duration: ${time}s; animation-delay: ${delay}s;" class="bu-ds-notification-glow">${safe}</span>`;
+    }
+    // Safe: text is escaped
+    container.innerHTML = `
+        <div class="bu-ds-notification-bg"></div>
+        <div style="position:relative;">
+            <span class="bu-ds-notification-title">${safe}</span>
+            ${glow}
+        </div>
+      `;
+    document.body.appendChild(container);
 
-    // Wrap each group in a container <li> with a toggle
-    for (let i = groups.length - 1; i >= 0; i--) {
-      const group = groups[i];
-      const wrapperLi = document.createElement("li");
-      wrapperLi.className = "bu-semester-group";
+    setTimeout(() => {
+      container.classList.add("bu-ds-notification-hide");
 
-      const innerUl = document.createElement("ul");
-      innerUl.className = "no-bullets bu-semester-items";
+      setTimeout(() => {
+        // cleanup
+        if (container.parentNode) {
+          container.parentNode.removeChild(container);
+        }
+        // 10 secs cooldown - ready to receive next message
+      }, 10000);
+    }, OVERLAY_MS);
+  }
 
-      for (const item of group.items) {
-        innerUl.appendChild(item);
-      }
+  /** Show the overlay once the current one (if any) has faded out */
+  function queueDarkSoulsNotification(text: string): void {
+    const start = Math.max(Date.now(), lastOverlayAt + OVERLAY_MS + 500);
+    // Reserve the slot now so queued overlays follow each other
+    lastOverlayAt = start;
+    setTimeout(() => showDarkSoulsNotification(text), start - Date.now());
+  }
 
-      wrapperLi.appendChild(innerUl);
+  /** Checks run one after another, so an unlock is never stored twice */
+  let achievementQueue: Promise<void> = Promise.resolve();
 
-      const label = codeToLabel(group.code);
-      addSemesterToggle(wrapperLi, innerUl, label, i > 0);
+  function runAchievementCheck(): Promise<void> {
+    achievementQueue = achievementQueue.then(
+      announceAchievements,
+      announceAchievements,
+    );
+    return achievementQueue;
+  }
 
-      // Insert the wrapper where the first item of this group was
-      parentUl.insertBefore(wrapperLi, parentUl.children[0] || null);
+  /** Check the achievement rules and announce anything newly unlocked */
+  async function announceAchievements(): Promise<void> {
+    const all = await chrome.storage.local.get(null);
+    const summaries: Record<string, SubjectSummary> = {};
+    for (const [key, value] of Object.entries(all)) {
+      const parsed = parseSubjectKey(key, SUMMARY_KEY_PREFIX);
+      if (parsed?.host !== PROFILE_HOST) continue;
+      const summary = parseSubjectSummary(value, key, []);
+      if (summary) summaries[parsed.wezId] = summary;
+    }
+    const unlocked = await checkAchievements(
+      { stats: loadStatistics(), summaries },
+      PROFILE_HOST,
+    );
+    for (const achievement of unlocked) {
+      const rule = ACHIEVEMENT_RULES.find((r) => r.id === achievement.rule);
+      if (rule) queueDarkSoulsNotification(rule.overlay);
     }
   }
 
-  /** Create a toggle button and optionally collapse the content */
-  function addSemesterToggle(
-    container: HTMLElement,
-    content: HTMLElement,
-    label: string,
-    startCollapsed: boolean,
-  ): void {
-    const header = document.createElement("button");
-    header.type = "button";
-    header.className = "bu-semester-toggle";
-    const chevron = document.createElement("span");
-    chevron.className = "bu-semester-chevron";
-    chevron.textContent = startCollapsed ? "▸" : "▾";
-    header.appendChild(chevron);
-    header.appendChild(document.createTextNode(" " + label));
-    header.title = "Kliknij, aby rozwinąć / zwinąć";
+  /** Seconds counted down before a grade shows in the "timed" mode */
+  const REVEAL_COUNTDOWN = 3;
+  /** Duration of the "drum roll" count-up */
+  const ROLL_DURATION_MS = 1500;
 
-    if (startCollapsed) {
-      content.classList.add("bu-collapsed");
+  /** Called when the popup changes the global reveal mode */
+  let onGlobalRevealMode: ((mode: RevealMode) => void) | null = null;
+
+  async function loadSyncSettings(): Promise<BetterUsosSettings> {
+    try {
+      const res = await chrome.storage.sync.get(SETTINGS_STORAGE_KEY);
+      return (res?.[SETTINGS_STORAGE_KEY] ?? {}) as BetterUsosSettings;
+    } catch {
+      return {};
     }
+  }
 
-    header.addEventListener("click", () => {
-      const isCollapsed = content.classList.toggle("bu-collapsed");
-      chevron.textContent = isCollapsed ? "▸" : "▾";
+  /** Set (or clear, with null) the reveal mode of one subject */
+  async function saveRevealOverride(
+    wezId: string,
+    mode: RevealMode | null,
+  ): Promise<void> {
+    const settings = await loadSyncSettings();
+    const overrides = parseRevealOverrides(settings.revealOverrides);
+    if (mode === null) delete overrides[wezId];
+    else overrides[wezId] = mode;
+    await chrome.storage.sync.set({
+      [SETTINGS_STORAGE_KEY]: { ...settings, revealOverrides: overrides },
     });
+  }
 
-    container.insertBefore(header, content);
+  /**
+   * Play the reveal effect of `mode` on a hidden grade cell, then call
+   * `done`. "timed" counts down in the mask, "roll" shows the value
+   * counting up from 0 before the cell is marked as revealed.
+   */
+  function playRevealEffect(
+    cell: HTMLElement,
+    mode: RevealMode,
+    done: () => void,
+  ): void {
+    const strong = cell.querySelector("b");
+    const mask = cell.querySelector<HTMLElement>(".bu-grade-mask");
+    if (mode === "timed" && mask) {
+      cell.dataset.buRevealing = "1";
+      cell.classList.add("bu-grade-counting");
+      let left = REVEAL_COUNTDOWN;
+      mask.textContent = String(left);
+      const timer = setInterval(() => {
+        left--;
+        if (left > 0) {
+          mask.textContent = String(left);
+          return;
+        }
+        clearInterval(timer);
+        mask.textContent = "";
+        cell.classList.remove("bu-grade-counting");
+        delete cell.dataset.buRevealing;
+        done();
+      }, 1000);
+      return;
+    }
+    if (mode === "roll" && strong) {
+      cell.dataset.buRevealing = "1";
+      cell.classList.add("bu-grade-rolling");
+      const original = strong.textContent ?? "";
+      const target = parseFloat(cell.dataset.buGrade ?? "0");
+      const decimals = (original.trim().split(/[.,]/)[1] ?? "").length;
+      const separator = original.includes(",") ? "," : ".";
+      const start = performance.now();
+      const step = (now: number): void => {
+        const t = Math.min(1, (now - start) / ROLL_DURATION_MS);
+        // Ease out, so the last digits tick slowly
+        const eased = 1 - Math.pow(1 - t, 3);
+        strong.textContent = (target * eased)
+          .toFixed(decimals)
+          .replace(".", separator);
+        if (t < 1) {
+          requestAnimationFrame(step);
+          return;
+        }
+        strong.textContent = original;
+        cell.classList.remove("bu-grade-rolling");
+        delete cell.dataset.buRevealing;
+        done();
+      };
+      requestAnimationFrame(step);
+      return;
+    }
+    done();
   }
 
   async function setupHiddenGrades(): Promise<void> {
@@ -2233,20 +4209,28 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
       const params = new URLSearchParams(window.location.search);
       const wezId = params.get("wez_id") ?? "unknown";
-      const storageKey = `better-usos-grades-${wezId}`;
+      const storageKey = revealKey(wezId, PROFILE_HOST);
 
-      const loadRevealed = async (): Promise<Set<number>> => {
+      const syncSettings = await loadSyncSettings();
+      let globalMode = isRevealMode(syncSettings.revealMode)
+        ? syncSettings.revealMode
+        : DEFAULT_REVEAL_MODE;
+      let subjectMode: RevealMode | null =
+        parseRevealOverrides(syncSettings.revealOverrides)[wezId] ?? null;
+      let revealMode = subjectMode ?? globalMode;
+
+      const loadRevealed = async (): Promise<RevealId[]> => {
         try {
           const res = await chrome.storage.local.get(storageKey);
-          const arr = res[storageKey] as number[] | undefined;
-          if (Array.isArray(arr)) return new Set(arr);
+          const arr = parseRevealSet(res[storageKey] ?? [], storageKey, []);
+          if (arr) return arr;
         } catch {
           /* ignore */
         }
-        return new Set();
+        return [];
       };
 
-      const saveRevealed = (set: Set<number>): void => {
+      const saveRevealed = (set: Set<string>): void => {
         try {
           chrome.storage.local.set({ [storageKey]: Array.from(set) });
         } catch {
@@ -2254,16 +4238,12 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         }
       };
 
-      const revealed = await loadRevealed();
+      const storedReveals = await loadRevealed();
 
       const gradeCells: HTMLElement[] = [];
       container.querySelectorAll("table.grey td").forEach((td) => {
-        const strong = td.querySelector("b");
-        if (!strong) return;
-        const valueRaw = (strong.textContent ?? "").trim().replace(",", ".");
-        if (!/^[0-9]+(\.[0-9]+)?$/.test(valueRaw)) return;
-        const style = (td.getAttribute("style") ?? "").toLowerCase();
-        if (!style.includes("text-align: right")) return;
+        const valueRaw = readGradeValue(td);
+        if (valueRaw === null) return;
         (td as HTMLElement).dataset.buGrade = valueRaw;
         gradeCells.push(td as HTMLElement);
       });
@@ -2276,19 +4256,29 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
       /** Extract the human-readable name of the grade node from the row */
       const getGradeName = (cell: HTMLElement): string => {
         const row = cell.closest("tr");
-        if (!row) return "Nieznana ocena";
-        // The name is in the td with width: 200px
-        const nameTd = row.querySelector(
-          'td[style*="200px"]',
-        ) as HTMLElement | null;
-        if (!nameTd) return "Nieznana ocena";
-        // Get text content but exclude .note spans (which contain "max ..." info)
-        const clone = nameTd.cloneNode(true) as HTMLElement;
-        clone.querySelectorAll(".note").forEach((n) => n.remove());
-        const name = (clone.textContent ?? "").trim();
-        return name || "Nieznana ocena";
+        return row ? getRowName(row) : "Nieznana ocena";
       };
 
+      const gradeIds = assignGradeIds(container, wezId);
+      const getGradeId = (row: Element): string =>
+        gradeIds.get(row) ?? `${wezId} / ${getRowName(row)}`;
+      const gradeKeys = gradeCells.map((cell) =>
+        getGradeId(cell.closest("tr") ?? cell),
+      );
+
+      const revealed = new Set<string>();
+      let hasLegacyReveals = false;
+      for (const id of storedReveals) {
+        if (typeof id === "string") {
+          revealed.add(id);
+        } else {
+          // One-time conversion from positional indices (schema v1)
+          hasLegacyReveals = true;
+          if (id < gradeKeys.length) revealed.add(gradeKeys[id]);
+        }
+      }
+      if (hasLegacyReveals) saveRevealed(revealed);
+
       const pageUrl = window.location.href;
 
       /** Extract subject name from the h1 on the grades page */
@@ -2311,19 +4301,111 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
 
       const subjectName = getSubjectName();
 
-      const fireConfetti = (cell: HTMLElement): void => {
+      /** Semester code ("2025Z") from the h2 heading, if it has one */
+      const getSemesterCode = (): string | null => {
+        const h2Text = (document.querySelector("h2")?.textContent ?? "").trim();
+        const match = h2Text.match(/^(\d{4}[LZ])\s+/i);
+        return match ? match[1].toUpperCase() : null;
+      };
+
+      const semesterCode = getSemesterCode();
+
+      const gradeNodes: GradeNode[] = gradeCells.map((cell, index) => ({
+        cell,
+        id: gradeKeys[index],
+        name: getGradeName(cell),
+        value: parseFloat(cell.dataset.buGrade ?? "0"),
+        max: parseRowMax(cell.closest("tr")),
+      }));
+      // Leaf rows with a max but no value yet – unknowns for the solver
+      container.querySelectorAll("table.grey tr").forEach((row) => {
+        if (row.querySelector("table, [data-bu-grade]")) return;
+        if (!row.querySelector(':scope > td[style*="200px"]')) return;
+        const max = parseRowMax(row);
+        if (max === null) return;
+        gradeNodes.push({
+          cell: null,
+          id: getGradeId(row),
+          name: getGradeName(row as HTMLElement),
+          value: null,
+          max,
+        });
+      });
+      const summaryRefresh = await setupGradeSummary(
+        container,
+        gradeNodes,
+        revealed,
+        wezId,
+        subjectName,
+        pageUrl,
+      );
+
+      // NOWA / ZMIENIONA badges for grades that differ from the last visit
+      const changes = await trackGradeChanges(
+        wezId,
+        PROFILE_HOST,
+        subjectName,
+        pageUrl,
+        gradeNodes,
+      ).catch((err) => {
+        console.warn("[Better USOS] grade change tracking error:", err);
+        return new Map<string, GradeChange>();
+      });
+      const changeBadges: { detail: HTMLElement; change: GradeChange }[] = [];
+      gradeIds.forEach((id, row) => {
+        const change = changes.get(id);
+        const nameTd = row.querySelector(':scope > td[style*="200px"]');
+        if (!change || !nameTd) return;
+        const badge = document.createElement("span");
+        badge.className = `bu-change-badge bu-change-${change.kind}`;
+        badge.textContent = change.kind === "new" ? "NOWA" : "ZMIENIONA";
+        const detail = document.createElement("span");
+        detail.className = "bu-change-badge-detail";
+        badge.appendChild(detail);
+        nameTd.appendChild(badge);
+        changeBadges.push({ detail, change });
+      });
+
+      /** Old → new values stay hidden until the grade itself is shown */
+      const refreshChangeBadges = (): void => {
+        for (const { detail, change } of changeBadges) {
+          const visible =
+            change.kind === "changed" &&
+            (revealMode === "instant" || revealed.has(change.id));
+          detail.textContent = visible ? ` ${describeChange(change)}` : "";
+        }
+      };
+
+      const histogramRefresh = setupGradeHistograms(gradeNodes, gradeIds);
+      refreshHistograms = histogramRefresh;
+
+      const refreshSummary = (): void => {
+        summaryRefresh();
+        refreshChangeBadges();
+        histogramRefresh();
+      };
+
+      const fireConfetti = (cell: HTMLElement, random: Rng): void => {
+        if (seriousMode) return;
         const confetti = document.createElement("div");
         confetti.className = "bu-confetti";
         for (let i = 0; i < 10; i++) {
           const dot = document.createElement("span");
           dot.className = "bu-confetti-dot";
-          const angle = (Math.random() - 0.5) * Math.PI;
-          const distance = 20 + Math.random() * 30;
+          if (confettiStyle.className) {
+            dot.classList.add(confettiStyle.className);
+          }
+          if (confettiStyle.emoji) {
+            dot.classList.add("bu-confetti-emoji");
+            dot.textContent = pick(random, confettiStyle.emoji);
+          }
+          const angle = randomBetween(random, -Math.PI / 2, Math.PI / 2);
+          const distance = randomBetween(random, 20, 50);
           const dx = Math.cos(angle) * distance;
           const dy = -Math.abs(Math.sin(angle) * distance);
           dot.style.setProperty("--bu-confetti-dx", `${dx.toFixed(1)}px`);
           dot.style.setProperty("--bu-confetti-dy", `${dy.toFixed(1)}px`);
-          dot.style.left = `${50 + (Math.random() - 0.5) * 40}%`;
+          dot.style.left = `${randomBetween(random, 30, 70)}%`;
           dot.style.top = "50%";
           confetti.appendChild(dot);
         }
@@ -2331,44 +4413,12 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         setTimeout(() => confetti.remove(), 800);
       };
 
-      const showDarkSoulsNotification = (text: string): void => {
-        const container = document.createElement("div");
-        container.classList.add("bu-ds-notification-screen");
-        let glow = "";
-        // adding glow effect
-        for (let i = 0; i < 8; i++) {
-          const time = (8 + i / 2).toFixed(1);
-          const delay = (i / 15).toFixed(1);
-          glow += `<span style="animation-duration: ${time}s; animation-delay: ${delay}s;" class="bu-ds-notification-glow">${text}</span>`;
-        }
-        container.innerHTML = `
-        <div class="bu-ds-notification-bg"></div>
-        <div style="position:relative;">
-            <span class="bu-ds-notification-title">${text}</span>
-            ${glow}
-        </div>
-      `;
-        document.body.appendChild(container);
-
-        setTimeout(() => {
-          container.classList.add("bu-ds-notification-hide");
-
-          setTimeout(() => {
-            // cleanup
-            if (container.parentNode) {
-              container.parentNode.removeChild(container);
-            }
-            // 10 secs cooldown - ready to receive next message
-          }, 10000);
-        }, 5000);
-      };
-
       const showYouDefeated = (): void => {
-        showDarkSoulsNotification("YOU DEFEATED");
+        showDarkSoulsNotification(overlayTexts.defeated);
       };
 
       const showYouFailed = (): void => {
-        showDarkSoulsNotification("YOU FAILED");
+        showDarkSoulsNotification(overlayTexts.failed);
       };
 
       gradeCells.forEach((cell, index) => {
@@ -2380,19 +4430,9 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           cell.dataset.buGrade ?? strong.textContent ?? "0",
         );
 
-        const getMaxValue = (): number | null => {
-          const row = cell.closest("tr");
-          if (!row) return null;
-          // More robust: search whole row text, supports \"max\" and \"maks\"
-          const text = (row.textContent ?? "")
-            .replace(/\s+/g, " ")
-            .toLowerCase()
-            .replace(",", ".");
-          const match = text.match(/(?:max|maks)\s*([0-9]+(?:\.[0-9]+)?)/);
-          if (!match) return null;
-          const parsed = parseFloat(match[1]);
-          return Number.isNaN(parsed) ? null : parsed;
-        };
+        // Search the whole row text, supports "max" and "maks"
+        const getMaxValue = (): number | null =>
+          parseRowMax(cell.closest("tr"));
 
         const maxValue = getMaxValue();
         const isPerfect =
@@ -2418,14 +4458,14 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         mask.className = "bu-grade-mask";
         cell.appendChild(mask);
 
-        const isRevealed = revealed.has(index);
+        const isRevealed = revealed.has(gradeKeys[index]);
         if (isRevealed) {
           cell.classList.add("bu-grade-revealed");
         } else {
           cell.classList.add("bu-grade-hidden");
         }
 
-        cell.addEventListener("click", () => {
+        const onReveal = (): void => {
           // Zawsze sprawdź, czy to max / 0 / low – także po wcześniejszym odkryciu
           const maxNow = getMaxValue();
           const perfectNow =
@@ -2458,21 +4498,30 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
           if (!cell.classList.contains("bu-grade-revealed")) {
             cell.classList.remove("bu-grade-hidden");
             cell.classList.add("bu-grade-revealed");
-            fireConfetti(cell);
-            revealed.add(index);
+            fireConfetti(cell, effectsRng);
+            revealed.add(gradeKeys[index]);
             saveRevealed(revealed);
 
             // Update statistics + earn a slot coin
             updateStatistic("revealedCount");
-            updateStatistic("coins");
+            earnCoins();
             const maxNowForEntry = getMaxValue();
             const gradeName = getGradeName(cell);
+            addRevealEvent({
+              date: Date.now(),
+              name: gradeName,
+              subject: subjectName,
+              semester: semesterCode,
+              value: gradeValue,
+              max: maxNowForEntry,
+            });
             if (perfectNow) {
               updateStatistic("defeatedCount");
-              updateStatistic("coins"); // bonus coin for defeated (+2 total)
+              earnCoins(); // bonus coin for defeated (+2 total)
               addGradeEntry("defeated", {
                 name: gradeName,
                 subject: subjectName,
+                semester: semesterCode,
                 value: gradeValue,
                 max: maxNowForEntry,
                 date: Date.now(),
@@ -2483,99 +4532,198 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
               addGradeEntry("fail", {
                 name: gradeName,
                 subject: subjectName,
+                semester: semesterCode,
                 value: gradeValue,
                 max: maxNowForEntry,
                 date: Date.now(),
                 url: pageUrl,
               });
             }
+            refreshSummary();
+            checkAchievementsSafely();
+          }
+        };
+
+        cell.addEventListener("click", () => {
+          if (cell.dataset.buRevealing) return;
+          if (cell.classList.contains("bu-grade-revealed")) {
+            onReveal();
+            return;
           }
+          playRevealEffect(cell, revealMode, onReveal);
         });
       });
 
-      // "Odsłoń wszystkie" button — only shown when there are hidden grades
-      const hiddenCells = gradeCells.filter(
-        (c) => !c.classList.contains("bu-grade-revealed"),
-      );
-      if (hiddenCells.length > 0) {
-        const revealAllBtn = document.createElement("button");
-        revealAllBtn.className = "bu-reveal-all-btn";
-        revealAllBtn.textContent = `Odsłoń wszystkie (${hiddenCells.length})`;
-        container.insertBefore(revealAllBtn, container.firstChild);
-
-        revealAllBtn.addEventListener("click", () => {
-          let newReveals = 0;
-          gradeCells.forEach((cell, index) => {
-            if (cell.classList.contains("bu-grade-revealed")) return;
-            cell.classList.remove("bu-grade-hidden");
-            cell.classList.add("bu-grade-revealed");
-            revealed.add(index);
-            newReveals++;
+      refreshSummary();
 
-            // Silently update statistics (coins + counts, no overlays/confetti)
-            updateStatistic("revealedCount");
-            updateStatistic("coins");
-
-            const gradeValue = parseFloat(cell.dataset.buGrade ?? "0");
-            const row = cell.closest("tr");
-            const rowText = (row?.textContent ?? "")
-              .replace(/\s+/g, " ")
-              .toLowerCase()
-              .replace(",", ".");
-            const maxMatch = rowText.match(
-              /(?:max|maks)\s*([0-9]+(?:\.[0-9]+)?)/,
-            );
-            const maxVal = maxMatch ? parseFloat(maxMatch[1]) : null;
-            const isPerfect =
-              maxVal !== null && Math.abs(gradeValue - maxVal) < 0.005;
-            const isZero = Math.abs(gradeValue) < 0.005;
+      const checkAchievementsSafely = (): void => {
+        runAchievementCheck().catch((err) =>
+          console.warn("[Better USOS] achievements error:", err),
+        );
+      };
 
-            if (isPerfect) {
-              cell.dataset.buPerfect = "1";
-              updateStatistic("defeatedCount");
-              updateStatistic("coins"); // bonus coin
-              addGradeEntry("defeated", {
-                name: getGradeName(cell),
-                subject: subjectName,
-                value: gradeValue,
-                max: maxVal,
-                date: Date.now(),
-                url: pageUrl,
-              });
-            } else if (isZero) {
-              cell.dataset.buZero = "1";
-              updateStatistic("failCount");
-              addGradeEntry("fail", {
-                name: getGradeName(cell),
-                subject: subjectName,
-                value: gradeValue,
-                max: maxVal,
-                date: Date.now(),
-                url: pageUrl,
-              });
-            } else {
-              const isHigh =
-                maxVal !== null && maxVal > 0 && gradeValue >= maxVal * 0.9;
-              const isLow =
-                maxVal !== null && maxVal > 0 && gradeValue < maxVal / 2;
-              if (isHigh) cell.dataset.buHigh = "1";
-              if (isLow) cell.dataset.buLow = "1";
-            }
+      /** Reveal every hidden grade silently (no overlays or confetti) */
+      const revealRemaining = (): void => {
+        let newReveals = 0;
+        gradeCells.forEach((cell, index) => {
+          if (cell.classList.contains("bu-grade-revealed")) return;
+          cell.classList.remove("bu-grade-hidden");
+          cell.classList.add("bu-grade-revealed");
+          revealed.add(gradeKeys[index]);
+          newReveals++;
+
+          // Silently update statistics (coins + counts, no overlays/confetti)
+          updateStatistic("revealedCount");
+          earnCoins();
+
+          const gradeValue = parseFloat(cell.dataset.buGrade ?? "0");
+          const maxVal = parseRowMax(cell.closest("tr"));
+          const isPerfect =
+            maxVal !== null && Math.abs(gradeValue - maxVal) < 0.005;
+          const isZero = Math.abs(gradeValue) < 0.005;
+          addRevealEvent({
+            date: Date.now(),
+            name: getGradeName(cell),
+            subject: subjectName,
+            semester: semesterCode,
+            value: gradeValue,
+            max: maxVal,
           });
 
-          if (newReveals > 0) {
-            saveRevealed(revealed);
-            refreshCoinDisplay();
+          if (isPerfect) {
+            cell.dataset.buPerfect = "1";
+            updateStatistic("defeatedCount");
+            earnCoins(); // bonus coin
+            addGradeEntry("defeated", {
+              name: getGradeName(cell),
+              subject: subjectName,
+              semester: semesterCode,
+              value: gradeValue,
+              max: maxVal,
+              date: Date.now(),
+              url: pageUrl,
+            });
+          } else if (isZero) {
+            cell.dataset.buZero = "1";
+            updateStatistic("failCount");
+            addGradeEntry("fail", {
+              name: getGradeName(cell),
+              subject: subjectName,
+              semester: semesterCode,
+              value: gradeValue,
+              max: maxVal,
+              date: Date.now(),
+              url: pageUrl,
+            });
+          } else {
+            const isHigh =
+              maxVal !== null && maxVal > 0 && gradeValue >= maxVal * 0.9;
+            const isLow =
+              maxVal !== null && maxVal > 0 && gradeValue < maxVal / 2;
+            if (isHigh) cell.dataset.buHigh = "1";
+            if (isLow) cell.dataset.buLow = "1";
           }
+        });
+
+        if (newReveals > 0) {
+          saveRevealed(revealed);
+          refreshCoinDisplay();
+          refreshSummary();
+          checkAchievementsSafely();
+        }
+      };
+
+      /**
+       * "Od razu" mode: unmask every grade without revealing it, so nothing
+       * is counted, logged or paid for just by opening the page
+       */
+      const showValues = (instant: boolean): void => {
+        gradeCells.forEach((cell, index) => {
+          const visible = instant || revealed.has(gradeKeys[index]);
+          cell.classList.toggle("bu-grade-hidden", !visible);
+          cell.classList.toggle("bu-grade-revealed", visible);
+        });
+        refreshSummary();
+      };
 
-          revealAllBtn.remove();
+      const revealBar = document.createElement("div");
+      revealBar.className = "bu-reveal-bar";
+      container.insertBefore(revealBar, container.firstChild);
+
+      // "Odsłoń wszystkie" button — only shown when there are hidden grades
+      let revealAllBtn: HTMLButtonElement | null = null;
+      const refreshRevealAllBtn = (): void => {
+        revealAllBtn?.remove();
+        revealAllBtn = null;
+        const hiddenCount = gradeCells.filter(
+          (c) => !c.classList.contains("bu-grade-revealed"),
+        ).length;
+        if (hiddenCount === 0) return;
+        const btn = document.createElement("button");
+        btn.className = "bu-reveal-all-btn";
+        btn.textContent = `Odsłoń wszystkie (${hiddenCount})`;
+        revealBar.insertBefore(btn, revealBar.firstChild);
+        btn.addEventListener("click", () => {
+          revealRemaining();
+          btn.remove();
         });
+        revealAllBtn = btn;
+      };
+
+      // Per-subject reveal mode; "" follows the global setting
+      const modeSelect = document.createElement("select");
+      modeSelect.className = "bu-reveal-mode";
+      modeSelect.title = "Tryb odsłaniania ocen w tym przedmiocie";
+      const defaultOption = document.createElement("option");
+      defaultOption.value = "";
+      modeSelect.appendChild(defaultOption);
+      for (const mode of REVEAL_MODES) {
+        const opt = document.createElement("option");
+        opt.value = mode;
+        opt.textContent = REVEAL_MODE_LABELS[mode];
+        modeSelect.appendChild(opt);
       }
+      const refreshModeSelect = (): void => {
+        defaultOption.textContent = `Domyślnie (${REVEAL_MODE_LABELS[globalMode]})`;
+        modeSelect.value = subjectMode ?? "";
+      };
+      refreshModeSelect();
+      revealBar.appendChild(modeSelect);
+
+      const applyRevealMode = (): void => {
+        revealMode = subjectMode ?? globalMode;
+        showValues(revealMode === "instant");
+        refreshRevealAllBtn();
+      };
+
+      modeSelect.addEventListener("change", () => {
+        subjectMode = isRevealMode(modeSelect.value) ? modeSelect.value : null;
+        saveRevealOverride(wezId, subjectMode).catch((err) =>
+          console.warn("[Better USOS] saving reveal mode failed:", err),
+        );
+        applyRevealMode();
+      });
+
+      onGlobalRevealMode = (mode) => {
+        globalMode = mode;
+        refreshModeSelect();
+        applyRevealMode();
+      };
+
+      applyRevealMode();
+      checkAchievementsSafely();
     } catch (err) {
       console.warn("[Better USOS] setupHiddenGrades error:", err);
     }
   }
 
+  // Drop cache values written by older versions before trusting them
+  migrateLocalCaches({
+    [ENABLED_CACHE_KEY]: (v) => typeof v === "boolean",
+    [BANNER_CACHE_KEY]: (v) => typeof v === "boolean",
+    [THEME_CACHE_KEY]: isThemeCache,
+  });
+
   // Check if extension is enabled (cached for instant decision)
   const isEnabled = (() => {
     try {
@@ -2595,8 +4743,24 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
     try {
       const raw = localStorage.getItem(THEME_CACHE_KEY);
       if (raw) {
-        const cached = JSON.parse(raw) as { themeId?: PaletteId };
-        if (cached.themeId) {
+        const cached = JSON.parse(raw) as {
+          themeId?: unknown;
+          cosmetic?: string;
+          custom?: unknown;
+          schedule?: unknown;
+        };
+        themeSchedule = parseThemeSchedule(cached.schedule);
+        if (
+          typeof cached.cosmetic === "string" &&
+          cached.cosmetic in COSMETIC_PALETTES
+        ) {
+          cosmeticPalette = cached.cosmetic;
+        }
+        if (cached.custom) {
+          const custom = parseCustomTheme(cached.custom, THEME_CACHE_KEY, []);
+          if (custom) customThemes = [custom];
+        }
+        if (isThemeId(cached.themeId)) {
           applyPalette(cached.themeId);
         }
       }
@@ -2625,11 +4789,20 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         type: string;
         show?: boolean;
         enabled?: boolean;
-        themeId?: PaletteId;
+        themeId?: unknown;
+        theme?: unknown;
+        schedule?: unknown;
+        bins?: number;
+        mode?: RevealMode;
+        host?: string;
       },
       _sender: chrome.runtime.MessageSender,
       sendResponse: (
-        response: { active?: boolean; hasDashboard?: boolean } | void,
+        response: {
+          active?: boolean;
+          hasDashboard?: boolean;
+          unstyled?: { tag: string; count: number }[];
+        } | void,
       ) => void,
     ) => {
       if (msg.type === "SET_ENABLED") {
@@ -2643,6 +4816,17 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         window.location.reload();
         return true;
       }
+      if (msg.type === "SET_SERIOUS_MODE") {
+        // Cards are built once per page load, so start over
+        window.location.reload();
+        return true;
+      }
+      if (msg.type === "DATA_IMPORTED") {
+        // Every cache of this profile is stale; reloading reads them again
+        // before anything can be written back over the imported data
+        if (msg.host === PROFILE_HOST) window.location.reload();
+        return true;
+      }
       if (msg.type === "GET_DASHBOARD_EDIT_STATE") {
         const hasDashboard = !!dashboardEditState;
         const active =
@@ -2673,8 +4857,31 @@ if (/^usosweb\.[^.]+\.edu\.pl$/.test(location.hostname)) {
         return true;
       }
       if (msg.type === "SET_THEME") {
-        const themeId: PaletteId = msg.themeId === "dark" ? "dark" : "light";
-        applyPalette(themeId);
+        const themeId = isThemeId(msg.themeId) ? msg.themeId : "light";
+        if (msg.schedule !== undefined) {
+          themeSchedule = parseThemeSchedule(msg.schedule);
+        }
+        // The theme may have just been created or edited in the options page
+        initCustomThemes().then(() => applyPalette(themeId));
+        return true;
+      }
+      if (msg.type === "PREVIEW_THEME") {
+        previewPalette(
+          msg.theme ? parseCustomTheme(msg.theme, "PREVIEW_THEME", []) : null,
+        );
+        return true;
+      }
+      if (msg.type === "LIST_UNSTYLED_COMPONENTS") {
+        const unstyled = listUnstyledComponents();
+        sendResponse({ unstyled });
+        return true;
+      }
+      if (msg.type === "SET_HISTOGRAM_BINS") {
+        setHistogramBins(msg.bins);
+        return true;
+      }
+      if (msg.type === "SET_REVEAL_MODE") {
+        if (isRevealMode(msg.mode)) onGlobalRevealMode?.(msg.mode);
         return true;
       }
       return false;
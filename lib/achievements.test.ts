@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { checkAchievements, loadAchievements } from "~lib/achievements";
+import { installFakeChrome } from "~lib/fake-chrome";
+import { EMPTY_STATS, type SubjectSummary } from "~lib/schema";
+
+const UW = "usosweb.uw.edu.pl";
+const PW = "usosweb.pw.edu.pl";
+
+function cleared(subject: string): SubjectSummary {
+  return {
+    subject,
+    url: `https://${UW}/`,
+    points: 10,
+    maxPoints: 10,
+    grade: 5,
+    revealedCount: 3,
+    gradedCount: 3,
+    updated: 1,
+  };
+}
+
+const NOTHING = { stats: EMPTY_STATS, summaries: {} };
+
+beforeEach(() => {
+  installFakeChrome();
+});
+
+describe("checkAchievements", () => {
+  it("records earlier progress silently on the first check", async () => {
+    const first = await checkAchievements(
+      { stats: EMPTY_STATS, summaries: { "1": cleared("Analiza") } },
+      UW,
+    );
+    expect(first).toEqual([]);
+    expect((await loadAchievements(UW)).map((a) => a.id)).toEqual([
+      "subject-revealed:1",
+    ]);
+  });
+
+  it("keeps the unlocks of each university apart", async () => {
+    await checkAchievements(NOTHING, UW);
+    await checkAchievements(NOTHING, PW);
+    const summaries = { "1": cleared("Analiza") };
+    const atUw = await checkAchievements({ stats: EMPTY_STATS, summaries }, UW);
+    expect(atUw.map((a) => a.id)).toEqual(["subject-revealed:1"]);
+    // The same wez_id is another subject at another university
+    const atPw = await checkAchievements(
+      { stats: EMPTY_STATS, summaries: { "1": cleared("Fizyka") } },
+      PW,
+    );
+    expect(atPw.map((a) => a.detail)).toEqual(["Fizyka"]);
+    expect(await loadAchievements(UW)).toHaveLength(1);
+    expect(await loadAchievements(PW)).toHaveLength(1);
+  });
+
+  it("does not announce an unlock twice", async () => {
+    await checkAchievements(NOTHING, UW);
+    const stats = { ...EMPTY_STATS, defeatedCount: 1 };
+    const ctx = { stats, summaries: {} };
+    expect(await checkAchievements(ctx, UW)).toHaveLength(1);
+    expect(await checkAchievements(ctx, UW)).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Achievements beyond DEFEATED/FAILED. Each rule looks at the recorded
+ * statistics and subject summaries and says which scopes it is unlocked
+ * for; unlocks are stored once, with the time they were first seen. Like
+ * the statistics they are judged on, unlocks belong to one university
+ * profile (wez_id scopes repeat between universities).
+ */
+
+import { achievementsKey } from "~lib/profiles";
+import {
+  parseAchievements,
+  type GradeStatistics,
+  type RevealEvent,
+  type SubjectSummary,
+  type UnlockedAchievement,
+} from "~lib/schema";
+
+export interface AchievementContext {
+  stats: GradeStatistics;
+  /** wez_id -> points summary of every subject seen so far */
+  summaries: Record<string, SubjectSummary>;
+}
+
+/** One unlock of a rule: "" for global rules, a semester or wez_id otherwise */
+export interface AchievementScope {
+  scope: string;
+  detail: string | null;
+}
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  /** Text of the Dark Souls style overlay shown on unlock */
+  overlay: string;
+  check: (ctx: AchievementContext) => AchievementScope[];
+}
+
+const GLOBAL: AchievementScope[] = [{ scope: "", detail: null }];
+
+function isPerfect(event: RevealEvent): boolean {
+  return (
+    event.max !== null &&
+    event.max > 0 &&
+    Math.abs(event.value - event.max) < 0.005
+  );
+}
+
+function byDate(events: RevealEvent[]): RevealEvent[] {
+  return [...events].sort((a, b) => a.date - b.date);
+}
+
+const firstPerfect: AchievementRule = {
+  id: "first-perfect",
+  title: "Pierwszy maks",
+  description: "Zdobądź maksymalną liczbę punktów z dowolnej oceny.",
+  overlay: "FIRST VICTORY",
+  check: ({ stats }) => (stats.defeatedCount > 0 ? GLOBAL : []),
+};
+
+/** `length` perfect scores revealed one after another */
+function perfectStreak(length: number): AchievementRule {
+  return {
+    id: `perfect-streak-${length}`,
+    title: `Seria ${length} maksów`,
+    description: `Odsłoń ${length} maksymalnych wyników z rzędu.`,
+    overlay: "PERFECT STREAK",
+    check: ({ stats }) => {
+      let streak = 0;
+      for (const event of byDate(stats.revealLog)) {
+        // Grades without a max neither extend nor break the streak
+        if (event.max === null || event.max <= 0) continue;
+        streak = isPerfect(event) ? streak + 1 : 0;
+        if (streak >= length) return GLOBAL;
+      }
+      return [];
+    },
+  };
+}
+
+const semesterHigh: AchievementRule = {
+  id: "semester-high",
+  title: "Pierwsze 90%+ w semestrze",
+  description: "Zdobądź co najmniej 90% punktów z oceny w nowym semestrze.",
+  overlay: "NEW SEMESTER CONQUERED",
+  check: ({ stats }) => {
+    const semesters = new Set<string>();
+    for (const event of stats.revealLog) {
+      if (!event.semester || event.max === null || event.max <= 0) continue;
+      if (event.value / event.max >= 0.9) semesters.add(event.semester);
+    }
+    return Array.from(semesters, (code) => ({ scope: code, detail: code }));
+  },
+};
+
+const subjectRevealed: AchievementRule = {
+  id: "subject-revealed",
+  title: "Wszystko odsłonięte",
+  description: "Odsłoń wszystkie oceny w przedmiocie.",
+  overlay: "SUBJECT CLEARED",
+  check: ({ summaries }) =>
+    Object.entries(summaries)
+      .filter(
+        ([, summary]) =>
+          summary.gradedCount > 0 &&
+          summary.revealedCount >= summary.gradedCount,
+      )
+      .map(([wezId, summary]) => ({ scope: wezId, detail: summary.subject })),
+};
+
+/** `count` grades revealed in total */
+function revealTotal(count: number): AchievementRule {
+  return {
+    id: `reveal-total-${count}`,
+    title: `${count} odsłoniętych ocen`,
+    description: `Odsłoń łącznie ${count} ocen.`,
+    overlay: "GRADES REVEALED",
+    check: ({ stats }) => (stats.revealedCount >= count ? GLOBAL : []),
+  };
+}
+
+/** Rules in the order the dashboard card lists them */
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  firstPerfect,
+  perfectStreak(5),
+  semesterHigh,
+  subjectRevealed,
+  revealTotal(50),
+  revealTotal(200),
+];
+
+/** Unlocks of the profile of `host` */
+export async function loadAchievements(
+  host: string,
+): Promise<UnlockedAchievement[]> {
+  const key = achievementsKey(host);
+  const res = await chrome.storage.local.get(key);
+  if (res[key] === undefined) return [];
+  return parseAchievements(res[key], key, []) ?? [];
+}
+
+/**
+ * Evaluate every rule against the data of the profile of `host`, store
+ * the new unlocks and return them. The very first check of a profile only
+ * records what was earned before, so old progress does not set off a
+ * burst of overlays.
+ */
+export async function checkAchievements(
+  ctx: AchievementContext,
+  host: string,
+): Promise<UnlockedAchievement[]> {
+  const key = achievementsKey(host);
+  const res = await chrome.storage.local.get(key);
+  const isFirstCheck = res[key] === undefined;
+  const stored = isFirstCheck
+    ? []
+    : (parseAchievements(res[key], key, []) ?? []);
+  const known = new Set(stored.map((a) => a.id));
+
+  const now = Date.now();
+  const unlocked: UnlockedAchievement[] = [];
+  for (const rule of ACHIEVEMENT_RULES) {
+    for (const { scope, detail } of rule.check(ctx)) {
+      const id = scope ? `${rule.id}:${scope}` : rule.id;
+      if (known.has(id)) continue;
+      known.add(id);
+      unlocked.push({ id, rule: rule.id, detail, unlocked: now });
+    }
+  }
+  if (unlocked.length > 0 || isFirstCheck) {
+    await chrome.storage.local.set({ [key]: [...stored, ...unlocked] });
+  }
+  return isFirstCheck ? [] : unlocked;
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { trackGradeChanges } from "~lib/changes";
+import { installFakeChrome, type FakeStorageArea } from "~lib/fake-chrome";
+import type { TreeGrade } from "~lib/grade-tree";
+import { subjectKey } from "~lib/profiles";
+import {
+  CHANGES_KEY_PREFIX,
+  POLLED_KEY_PREFIX,
+  SEEN_KEY_PREFIX,
+  type SubjectChangeLog,
+} from "~lib/schema";
+
+const HOST = "usosweb.uw.edu.pl";
+const WEZ_ID = "123";
+const PAGE_URL = `https://${HOST}/kontroler.php?_action=dla_stud/studia/sprawdziany/pokaz&wez_id=${WEZ_ID}`;
+
+const K1: TreeGrade = { id: "k1", name: "Kolokwium 1", value: 8, max: 10 };
+const K2: TreeGrade = { id: "k2", name: "Kolokwium 2", value: null, max: 10 };
+
+let local: FakeStorageArea;
+
+function track(nodes: TreeGrade[], source: "page" | "poller" = "page") {
+  return trackGradeChanges(WEZ_ID, HOST, "Analiza", PAGE_URL, nodes, source);
+}
+
+function changeLog(): SubjectChangeLog | undefined {
+  return local.data[subjectKey(CHANGES_KEY_PREFIX, WEZ_ID, HOST)] as
+    SubjectChangeLog | undefined;
+}
+
+beforeEach(() => {
+  ({ local } = installFakeChrome());
+});
+
+describe("trackGradeChanges", () => {
+  it("only records a snapshot on the first check", async () => {
+    const found = await track([K1, K2]);
+    expect(found.size).toBe(0);
+    expect(local.data[subjectKey(SEEN_KEY_PREFIX, WEZ_ID, HOST)]).toEqual({
+      k1: { value: 8, max: 10 },
+      k2: { value: null, max: 10 },
+    });
+    expect(changeLog()).toEqual({
+      subject: "Analiza",
+      url: PAGE_URL,
+      entries: [],
+    });
+  });
+
+  it("reports a value that appeared as new", async () => {
+    await track([K1, K2]);
+    const found = await track([K1, { ...K2, value: 7 }]);
+    expect(Array.from(found.keys())).toEqual(["k2"]);
+    expect(found.get("k2")).toMatchObject({
+      kind: "new",
+      oldValue: null,
+      newValue: 7,
+    });
+  });
+
+  it("reports an added node with a value as new, without one not at all", async () => {
+    await track([K1]);
+    const found = await track([
+      K1,
+      K2,
+      { id: "k3", name: "Projekt", value: 15, max: 20 },
+    ]);
+    expect(Array.from(found.keys())).toEqual(["k3"]);
+    expect(found.get("k3")?.kind).toBe("new");
+  });
+
+  it("reports a changed value or max as changed", async () => {
+    await track([K1]);
+    const found = await track([{ ...K1, value: 9 }]);
+    expect(found.get("k1")).toMatchObject({
+      kind: "changed",
+      oldValue: 8,
+      newValue: 9,
+      oldMax: 10,
+      newMax: 10,
+    });
+    const rescaled = await track([{ ...K1, value: 9, max: 12 }]);
+    expect(rescaled.get("k1")?.kind).toBe("changed");
+    expect(changeLog()?.entries).toHaveLength(2);
+  });
+
+  it("reports a removed value as changed and forgets removed nodes", async () => {
+    await track([K1, { ...K2, value: 5 }]);
+    const found = await track([{ ...K1, value: null }]);
+    expect(found.get("k1")).toMatchObject({
+      kind: "changed",
+      oldValue: 8,
+      newValue: null,
+    });
+    // A node gone from the page is not a change...
+    expect(found.has("k2")).toBe(false);
+    // ...but it is new again if it comes back
+    const back = await track([
+      { ...K1, value: null },
+      { ...K2, value: 5 },
+    ]);
+    expect(back.get("k2")?.kind).toBe("new");
+  });
+
+  it("does not log the same change twice", async () => {
+    await track([K1]);
+    await track([{ ...K1, value: 9 }]);
+    // Back and forth: the second change to 9 is already in the log
+    await track([K1]);
+    await track([{ ...K1, value: 9 }]);
+    expect(changeLog()?.entries.map((e) => e.newValue)).toEqual([8, 9]);
+  });
+});
+
+describe("trackGradeChanges from the poller", () => {
+  const pageKey = subjectKey(SEEN_KEY_PREFIX, WEZ_ID, HOST);
+  const polledKey = subjectKey(POLLED_KEY_PREFIX, WEZ_ID, HOST);
+
+  it("keeps its own snapshot and leaves the page's one alone", async () => {
+    await track([K1]);
+    const polled = await track([{ ...K1, value: 9 }], "poller");
+    expect(polled.get("k1")?.kind).toBe("changed");
+    expect(local.data[polledKey]).toEqual({ k1: { value: 9, max: 10 } });
+    expect(local.data[pageKey]).toEqual({ k1: { value: 8, max: 10 } });
+  });
+
+  it("leaves the change for the next visit to badge", async () => {
+    await track([K1]);
+    await track([{ ...K1, value: 9 }], "poller");
+    const visit = await track([{ ...K1, value: 9 }]);
+    expect(visit.get("k1")?.kind).toBe("changed");
+    expect(changeLog()?.entries).toHaveLength(1);
+  });
+
+  it("does not announce changes a visit already logged", async () => {
+    await track([K1]);
+    await track([{ ...K1, value: 9 }]);
+    const polled = await track([{ ...K1, value: 9 }], "poller");
+    expect(polled.size).toBe(0);
+    // Later polls diff against the poller snapshot, not the page's
+    const next = await track([{ ...K1, value: 10 }], "poller");
+    expect(next.get("k1")).toMatchObject({ oldValue: 9, newValue: 10 });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * New/changed grade detection. The content script (on page visits) and the
+ * background poller (on fetched pages) share one change log per subject
+ * but keep separate snapshots: a change the poller announced is still
+ * new to the grades page, which marks it NOWA/ZMIENIONA on the next visit.
+ */
+
+import type { TreeGrade } from "~lib/grade-tree";
+import { subjectKey } from "~lib/profiles";
+import {
+  CHANGES_KEY_PREFIX,
+  parseChangeLog,
+  parseSeenGrades,
+  POLLED_KEY_PREFIX,
+  SEEN_KEY_PREFIX,
+  type GradeChange,
+  type SeenGrade,
+  type SubjectChangeLog,
+} from "~lib/schema";
+
+/** Entries kept per subject in the change log */
+export const CHANGE_LOG_LIMIT = 50;
+
+/**
+ * Compare the nodes with the stored snapshot, prepend new/changed grades
+ * to the subject's change log and store the current snapshot. The first
+ * check of a subject only records the snapshot. The log also remembers
+ * the subject's name and page, which the background poller reads.
+ * Snapshot and log belong to the profile of `host`. A change already in
+ * the log is not logged twice.
+ *
+ * The "poller" source diffs against its own snapshot (starting from the
+ * page's one) and leaves out changes already logged by a visit, which the
+ * user has seen. Returns the changes found, keyed by grade id.
+ */
+export async function trackGradeChanges(
+  wezId: string,
+  host: string,
+  subject: string,
+  url: string,
+  nodes: TreeGrade[],
+  source: "page" | "poller" = "page",
+): Promise<Map<string, GradeChange>> {
+  const pageKey = subjectKey(SEEN_KEY_PREFIX, wezId, host);
+  const seenKey =
+    source === "poller" ? subjectKey(POLLED_KEY_PREFIX, wezId, host) : pageKey;
+  const changesKey = subjectKey(CHANGES_KEY_PREFIX, wezId, host);
+  const res = await chrome.storage.local.get([seenKey, pageKey, changesKey]);
+  const snapshotKey = res[seenKey] === undefined ? pageKey : seenKey;
+  const previous =
+    res[snapshotKey] === undefined
+      ? null
+      : parseSeenGrades(res[snapshotKey], snapshotKey, []);
+
+  const found = new Map<string, GradeChange>();
+  const snapshot: Record<string, SeenGrade> = {};
+  const now = Date.now();
+  for (const node of nodes) {
+    snapshot[node.id] = { value: node.value, max: node.max };
+    if (!previous) continue;
+    const before = previous[node.id];
+    if (before && before.value === node.value && before.max === node.max) {
+      continue;
+    }
+    const isNew = !before || before.value === null;
+    // A new node without a value yet is not worth reporting
+    if (isNew && node.value === null) continue;
+    found.set(node.id, {
+      id: node.id,
+      name: node.name,
+      kind: isNew ? "new" : "changed",
+      oldValue: before?.value ?? null,
+      newValue: node.value,
+      oldMax: before?.max ?? null,
+      newMax: node.max,
+      date: now,
+    });
+  }
+
+  const stored =
+    res[changesKey] === undefined
+      ? null
+      : parseChangeLog(res[changesKey], changesKey, []);
+  const logged = stored?.entries ?? [];
+  const fresh = Array.from(found.values()).filter(
+    (change) =>
+      !logged.some(
+        (e) =>
+          e.id === change.id &&
+          e.newValue === change.newValue &&
+          e.newMax === change.newMax,
+      ),
+  );
+  const entries = [...fresh, ...logged];
+  const log: SubjectChangeLog = {
+    subject,
+    url,
+    entries: entries.slice(0, CHANGE_LOG_LIMIT),
+  };
+  await chrome.storage.local.set({ [seenKey]: snapshot, [changesKey]: log });
+  if (source === "poller") {
+    return new Map(fresh.map((change) => [change.id, change]));
+  }
+  return found;
+}
+
+function formatValue(value: number | null, max: number | null): string {
+  if (value === null) return "–";
+  const fmt = (n: number) =>
+    n.toLocaleString("pl-PL", { maximumFractionDigits: 2 });
+  return max !== null ? `${fmt(value)} / ${fmt(max)}` : fmt(value);
+}
+
+/** "old → new" for a changed grade, just the value for a new one */
+export function describeChange(change: GradeChange): string {
+  const next = formatValue(change.newValue, change.newMax);
+  return change.kind === "new"
+    ? next
+    : `${formatValue(change.oldValue, change.oldMax)} → ${next}`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  auditPalette,
+  contrastRatio,
+  CONTRAST_PAIRS,
+  parseColor,
+  wcagLevel,
+} from "~lib/contrast";
+import { BUILTIN_PALETTES, HIGH_CONTRAST_PALETTE } from "~lib/themes";
+
+/** "fg on bg (ratio)" labels of the pairs at `level` */
+function pairsAtLevel(
+  results: ReturnType<typeof auditPalette>,
+  level: "AA" | "fail",
+): string[] {
+  return results
+    .filter((r) => r.level === level)
+    .map((r) => `${r.pair.fg} on ${r.pair.bg} (${r.ratio.toFixed(2)})`);
+}
+
+describe("contrastRatio", () => {
+  it("spans 1 to 21", () => {
+    const black = parseColor("#000")!;
+    const white = parseColor("#ffffff")!;
+    expect(contrastRatio(black, white)).toBeCloseTo(21, 5);
+    expect(contrastRatio(white, white)).toBeCloseTo(1, 5);
+  });
+
+  it("uses the lower thresholds for large text", () => {
+    expect(wcagLevel(4.6)).toBe("AA");
+    expect(wcagLevel(4.6, true)).toBe("AAA");
+    expect(wcagLevel(3.2)).toBe("fail");
+    expect(wcagLevel(3.2, true)).toBe("AA");
+  });
+});
+
+describe("built-in palettes", () => {
+  for (const [id, palette] of Object.entries(BUILTIN_PALETTES)) {
+    it(`${id} has no failing pair`, () => {
+      expect(pairsAtLevel(auditPalette(palette), "fail")).toEqual([]);
+    });
+  }
+
+  it("high contrast reaches AAA on every pair", () => {
+    const results = auditPalette(HIGH_CONTRAST_PALETTE);
+    // Every pair is checked: none is skipped for a missing or odd colour
+    expect(results).toHaveLength(CONTRAST_PAIRS.length);
+    expect(pairsAtLevel(results, "fail")).toEqual([]);
+    expect(pairsAtLevel(results, "AA")).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * WCAG 2.x contrast audit of a palette: every text variable is checked on
+ * the background variables it is drawn on. Used by the options page to
+ * flag unreadable custom themes and regressions in the built-in ones.
+ */
+
+import type { Palette } from "~lib/themes";
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** Hex, rgb()/rgba() or "transparent"; null for anything else */
+export function parseColor(value: string): Rgba | null {
+  const v = value.trim().toLowerCase();
+  if (v === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(v);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = Array.from(digits, (d) => d + d).join("");
+    }
+    const n = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+    return {
+      r: n(0),
+      g: n(2),
+      b: n(4),
+      a: digits.length === 8 ? n(6) / 255 : 1,
+    };
+  }
+  const rgb =
+    /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(
+      v,
+    );
+  if (rgb) {
+    const alpha = rgb[4]
+      ? rgb[4].endsWith("%")
+        ? parseFloat(rgb[4]) / 100
+        : parseFloat(rgb[4])
+      : 1;
+    return {
+      r: Number(rgb[1]),
+      g: Number(rgb[2]),
+      b: Number(rgb[3]),
+      a: Math.min(Math.max(alpha, 0), 1),
+    };
+  }
+  return null;
+}
+
+/** `top` painted over an opaque `bottom` */
+function composite(top: Rgba, bottom: Rgba): Rgba {
+  const mix = (t: number, b: number) => t * top.a + b * (1 - top.a);
+  return {
+    r: mix(top.r, bottom.r),
+    g: mix(top.g, bottom.g),
+    b: mix(top.b, bottom.b),
+    a: 1,
+  };
+}
+
+function relativeLuminance({ r, g, b }: Rgba): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** Contrast ratio of two opaque colours, 1–21 */
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+export interface ContrastPair {
+  fg: string;
+  bg: string;
+  /** Opaque variable under a translucent `bg` (timetable entries) */
+  under?: string;
+  /** Large or bold text only: lower WCAG thresholds */
+  large?: boolean;
+}
+
+const TIMETABLE_PAIRS: ContrastPair[] = Array.from({ length: 8 }, (_, i) => ({
+  fg: "--usos-text",
+  bg: `--bu-tt-color-${i + 1}`,
+  under: "--usos-surface",
+}));
+
+/** Text variables and the backgrounds they appear on */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+  { fg: "--usos-text", bg: "--usos-surface" },
+  { fg: "--usos-text", bg: "--usos-bg" },
+  { fg: "--usos-text-muted", bg: "--usos-surface" },
+  { fg: "--usos-text-muted", bg: "--usos-bg" },
+  { fg: "--usos-primary", bg: "--usos-surface" },
+  { fg: "--usos-primary-hover", bg: "--usos-surface" },
+  { fg: "--font-color", bg: "--background" },
+  { fg: "--font-color", bg: "--background-secondary" },
+  { fg: "--on-background", bg: "--background" },
+  { fg: "--on-background-secondary", bg: "--background-secondary" },
+  { fg: "--on-primary", bg: "--primary" },
+  { fg: "--grey", bg: "--background" },
+  { fg: "--primary", bg: "--background", large: true },
+  { fg: "--error", bg: "--background" },
+  { fg: "--warning", bg: "--background" },
+  { fg: "--ok-status", bg: "--background" },
+  { fg: "--font-color-reverse", bg: "--background-reverse" },
+  ...TIMETABLE_PAIRS,
+];
+
+export type WcagLevel = "AAA" | "AA" | "fail";
+
+export interface ContrastResult {
+  pair: ContrastPair;
+  ratio: number;
+  level: WcagLevel;
+}
+
+/** AA needs 4.5:1 (3:1 for large text), AAA 7:1 (4.5:1) */
+export function wcagLevel(ratio: number, large = false): WcagLevel {
+  if (ratio >= (large ? 4.5 : 7)) return "AAA";
+  if (ratio >= (large ? 3 : 4.5)) return "AA";
+  return "fail";
+}
+
+/**
+ * Check every pair whose colours the palette defines. Pairs using a
+ * variable the palette leaves to USOSweb, or a value that is not a plain
+ * colour, are skipped: their real colour is not known here.
+ */
+export function auditPalette(palette: Palette): ContrastResult[] {
+  const results: ContrastResult[] = [];
+  for (const pair of CONTRAST_PAIRS) {
+    const fg = palette[pair.fg] ? parseColor(palette[pair.fg]) : null;
+    let bg = palette[pair.bg] ? parseColor(palette[pair.bg]) : null;
+    if (!fg || !bg) continue;
+    if (bg.a < 1) {
+      const under = pair.under ? parseColor(palette[pair.under] ?? "") : null;
+      if (!under || under.a < 1) continue;
+      bg = composite(bg, under);
+    }
+    const ratio = contrastRatio(composite(fg, bg), bg);
+    results.push({ pair, ratio, level: wcagLevel(ratio, pair.large) });
+  }
+  return results;
+}
@@ -0,0 +1,126 @@
+/**
+ * Export of the extension's locally stored data (statistics, dashboard
+ * layout and per-subject grade reveals) of one university profile. Used by
+ * both the popup and the content script, so it only relies on
+ * chrome.storage and the DOM.
+ */
+
+import { SCHEMA_VERSION_KEY } from "~lib/migrations";
+import { dashboardKey, revealKeyWezId, statisticsKey } from "~lib/profiles";
+
+export interface ExportBundle {
+  app: "better-usos";
+  /** Storage schema version the data was exported with */
+  schemaVersion: number;
+  exportedAt: string;
+  /** USOSweb hostname of the exported profile */
+  host: string;
+  statistics: Record<string, unknown> | null;
+  dashboard: Record<string, unknown> | null;
+  /** wez_id -> revealed grade ids */
+  reveals: Record<string, unknown[]>;
+}
+
+/** Read everything worth backing up of the profile of `host` */
+export async function buildExportBundle(host: string): Promise<ExportBundle> {
+  const all = (await chrome.storage.local.get(null)) as Record<string, unknown>;
+  const reveals: Record<string, unknown[]> = {};
+  for (const [key, value] of Object.entries(all)) {
+    const wezId = revealKeyWezId(key, host);
+    if (wezId !== null && Array.isArray(value)) reveals[wezId] = value;
+  }
+  const asObject = (v: unknown): Record<string, unknown> | null =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? (v as Record<string, unknown>)
+      : null;
+  return {
+    app: "better-usos",
+    schemaVersion:
+      typeof all[SCHEMA_VERSION_KEY] === "number"
+        ? (all[SCHEMA_VERSION_KEY] as number)
+        : 0,
+    exportedAt: new Date().toISOString(),
+    host,
+    statistics: asObject(all[statisticsKey(host)]),
+    dashboard: asObject(all[dashboardKey(host)]),
+    reveals,
+  };
+}
+
+function csvCell(value: unknown): string {
+  const str = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/** Flatten the DEFEATED/FAILED entry lists into one CSV table */
+export function entriesToCsv(bundle: ExportBundle): string {
+  const header = [
+    "type",
+    "name",
+    "subject",
+    "semester",
+    "value",
+    "max",
+    "date",
+    "url",
+  ];
+  const rows: string[] = [header.join(",")];
+  const lists: [string, unknown][] = [
+    ["defeated", bundle.statistics?.defeatedEntries],
+    ["fail", bundle.statistics?.failEntries],
+  ];
+  for (const [type, list] of lists) {
+    if (!Array.isArray(list)) continue;
+    for (const raw of list) {
+      const e = (raw ?? {}) as Record<string, unknown>;
+      const date =
+        typeof e.date === "number" ? new Date(e.date).toISOString() : "";
+      rows.push(
+        [type, e.name, e.subject, e.semester, e.value, e.max, date, e.url]
+          .map(csvCell)
+          .join(","),
+      );
+    }
+  }
+  // BOM so spreadsheet apps detect UTF-8 (Polish characters)
+  return "\uFEFF" + rows.join("\r\n") + "\r\n";
+}
+
+/** Trigger a file download of `text` from the current page */
+export function downloadText(
+  filename: string,
+  text: string,
+  mime: string,
+): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.style.display = "none";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Export a profile as JSON, or its grade entries as CSV */
+export async function exportData(
+  format: "json" | "csv",
+  host: string,
+): Promise<void> {
+  const bundle = await buildExportBundle(host);
+  const stamp = `${host}-${bundle.exportedAt.slice(0, 10)}`;
+  if (format === "json") {
+    downloadText(
+      `better-usos-${stamp}.json`,
+      JSON.stringify(bundle, null, 2),
+      "application/json",
+    );
+  } else {
+    downloadText(
+      `better-usos-oceny-${stamp}.csv`,
+      entriesToCsv(bundle),
+      "text/csv;charset=utf-8",
+    );
+  }
+}
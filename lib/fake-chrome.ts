@@ -0,0 +1,57 @@
+/**
+ * In-memory chrome.storage for tests of modules that read and write
+ * storage. Values are cloned on the way in and out, like the real API.
+ */
+
+import { vi } from "vitest";
+
+export interface FakeStorageArea {
+  data: Record<string, unknown>;
+  get(
+    keys?: string | string[] | Record<string, unknown> | null,
+  ): Promise<Record<string, unknown>>;
+  set(items: Record<string, unknown>): Promise<void>;
+  remove(keys: string | string[]): Promise<void>;
+}
+
+function fakeArea(initial: Record<string, unknown>): FakeStorageArea {
+  const area: FakeStorageArea = {
+    data: structuredClone(initial),
+    async get(keys) {
+      if (keys === null || keys === undefined) {
+        return structuredClone(area.data);
+      }
+      const defaults: Record<string, unknown> =
+        typeof keys === "string"
+          ? { [keys]: undefined }
+          : Array.isArray(keys)
+            ? Object.fromEntries(keys.map((key) => [key, undefined]))
+            : keys;
+      const out: Record<string, unknown> = {};
+      for (const [key, fallback] of Object.entries(defaults)) {
+        const value = key in area.data ? area.data[key] : fallback;
+        if (value !== undefined) out[key] = structuredClone(value);
+      }
+      return out;
+    },
+    async set(items) {
+      Object.assign(area.data, structuredClone(items));
+    },
+    async remove(keys) {
+      for (const key of typeof keys === "string" ? [keys] : keys) {
+        delete area.data[key];
+      }
+    },
+  };
+  return area;
+}
+
+/** Replace the global `chrome` with fresh local and sync storage areas */
+export function installFakeChrome(
+  local: Record<string, unknown> = {},
+  sync: Record<string, unknown> = {},
+): { local: FakeStorageArea; sync: FakeStorageArea } {
+  const storage = { local: fakeArea(local), sync: fakeArea(sync) };
+  vi.stubGlobal("chrome", { storage });
+  return storage;
+}
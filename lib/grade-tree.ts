@@ -0,0 +1,141 @@
+/**
+ * Reading the grades tree (#drzewo) of a USOSweb subject page. Shared by
+ * the content script and the background poller, which parses fetched
+ * pages, so both derive the same grade ids from the same markup.
+ */
+
+/** One node of the tree as read from the markup */
+export interface TreeGrade {
+  /** Stable id (subject, tree path, name) – see assignGradeIds */
+  id: string;
+  name: string;
+  value: number | null;
+  max: number | null;
+}
+
+/** The node name sits in the td with width: 200px */
+const NAME_TD = 'td[style*="200px"]';
+
+/** Extract the "max"/"maks" value from the whole text of a grade row */
+export function parseRowMax(row: Element | null): number | null {
+  if (!row) return null;
+  const text = (row.textContent ?? "")
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .replace(",", ".");
+  const match = text.match(/(?:max|maks)\s*([0-9]+(?:\.[0-9]+)?)/);
+  if (!match) return null;
+  const parsed = parseFloat(match[1]);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Raw value of a grade cell (a right-aligned td with the points in <b>),
+ * or null when `td` is not one.
+ */
+export function readGradeValue(td: Element): string | null {
+  const strong = td.querySelector("b");
+  if (!strong) return null;
+  const valueRaw = (strong.textContent ?? "").trim().replace(",", ".");
+  if (!/^[0-9]+(\.[0-9]+)?$/.test(valueRaw)) return null;
+  const style = (td.getAttribute("style") ?? "").toLowerCase();
+  if (!style.includes("text-align: right")) return null;
+  return valueRaw;
+}
+
+/** Human-readable name of the node in `row` */
+export function getRowName(row: Element): string {
+  const nameTd = row.querySelector(NAME_TD);
+  if (!nameTd) return "Nieznana ocena";
+  // Skip .note spans ("max ..." info) and controls added by the extension
+  const clone = nameTd.cloneNode(true) as Element;
+  clone
+    .querySelectorAll(".note, .bu-change-badge, .bu-hist-toggle")
+    .forEach((n) => n.remove());
+  const name = (clone.textContent ?? "").trim();
+  return name || "Nieznana ocena";
+}
+
+/** Rows that describe a node of the tree (they have their own name td) */
+function isNodeRow(row: Element): boolean {
+  return !!row.querySelector(`:scope > ${NAME_TD}`);
+}
+
+/** Names of the enclosing grade nodes, outermost first */
+function getGradePath(container: Element, row: Element): string[] {
+  const path: string[] = [];
+  let parent = row.parentElement?.closest("tr") ?? null;
+  while (parent && container.contains(parent)) {
+    if (isNodeRow(parent)) path.unshift(getRowName(parent));
+    parent = parent.parentElement?.closest("tr") ?? null;
+  }
+  return path;
+}
+
+/**
+ * Stable grade ids: subject + tree path + name, so reveals and weights
+ * survive nodes being added or reordered. Same-named siblings get a "#n"
+ * suffix in document order.
+ */
+export function assignGradeIds(
+  container: Element,
+  wezId: string,
+): Map<Element, string> {
+  const ids = new Map<Element, string>();
+  const counts = new Map<string, number>();
+  container.querySelectorAll("table.grey tr").forEach((row) => {
+    if (!isNodeRow(row)) return;
+    const base = [wezId, ...getGradePath(container, row), getRowName(row)].join(
+      " / ",
+    );
+    const n = (counts.get(base) ?? 0) + 1;
+    counts.set(base, n);
+    ids.set(row, n === 1 ? base : `${base} #${n}`);
+  });
+  return ids;
+}
+
+/**
+ * Every node worth tracking: rows with a value, plus leaf rows that have
+ * a max but no value yet.
+ */
+export function readGradeTree(container: Element, wezId: string): TreeGrade[] {
+  const nodes: TreeGrade[] = [];
+  assignGradeIds(container, wezId).forEach((id, row) => {
+    let valueRaw: string | null = null;
+    for (const td of Array.from(row.querySelectorAll(":scope > td"))) {
+      valueRaw = readGradeValue(td);
+      if (valueRaw !== null) break;
+    }
+    const max = parseRowMax(row);
+    if (valueRaw === null && (max === null || row.querySelector("table"))) {
+      return;
+    }
+    nodes.push({
+      id,
+      name: getRowName(row),
+      value: valueRaw === null ? null : parseFloat(valueRaw),
+      max,
+    });
+  });
+  return nodes;
+}
+
+/** Parse a fetched grades page; null when it has no tree (e.g. logged out) */
+export function parseGradePage(
+  html: string,
+  wezId: string,
+): TreeGrade[] | null {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const container = doc.querySelector("#drzewo");
+  return container ? readGradeTree(container, wezId) : null;
+}
+
+/** wez_id of a grades page URL, null for other pages */
+export function getWezId(url: string): string | null {
+  try {
+    return new URL(url).searchParams.get("wez_id");
+  } catch {
+    return null;
+  }
+}
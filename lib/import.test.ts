@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { mergeStatistics, validateBundle } from "~lib/import";
+import { CURRENT_SCHEMA_VERSION } from "~lib/migrations";
+import {
+  EMPTY_STATS,
+  type GradeEntry,
+  type GradeStatistics,
+  type RevealEvent,
+} from "~lib/schema";
+
+const HOST = "usosweb.uw.edu.pl";
+const PAGE = `https://${HOST}/kontroler.php?_action=dla_stud/studia/sprawdziany/pokaz&wez_id=1`;
+
+function reveal(date: number, name: string, value = 5): RevealEvent {
+  return { date, name, subject: "Analiza", semester: "2025Z", value, max: 10 };
+}
+
+function entry(date: number, name: string): GradeEntry {
+  return {
+    name,
+    subject: "Analiza",
+    semester: "2025Z",
+    value: 10,
+    max: 10,
+    date,
+    url: PAGE,
+  };
+}
+
+function stats(overrides: Partial<GradeStatistics>): GradeStatistics {
+  return { ...EMPTY_STATS, ...overrides };
+}
+
+describe("mergeStatistics", () => {
+  it("keeps one copy of reveal events present on both sides", () => {
+    const current = stats({
+      revealLog: [reveal(1, "K1"), reveal(3, "K2")],
+    });
+    const imported = stats({
+      revealLog: [reveal(2, "Kolokwium"), reveal(3, "K2"), reveal(1, "K1")],
+    });
+    const merged = mergeStatistics(current, imported);
+    expect(merged.revealLog.map((e) => e.date)).toEqual([1, 2, 3]);
+    expect(merged.revealLog.map((e) => e.name)).toEqual([
+      "K1",
+      "Kolokwium",
+      "K2",
+    ]);
+  });
+
+  it("keeps reveals of the same grade with different values apart", () => {
+    const merged = mergeStatistics(
+      stats({ revealLog: [reveal(1, "K1", 4)] }),
+      stats({ revealLog: [reveal(1, "K1", 6)] }),
+    );
+    expect(merged.revealLog).toHaveLength(2);
+  });
+
+  it("unions entries and never counts fewer than it lists", () => {
+    const merged = mergeStatistics(
+      stats({
+        defeatedCount: 1,
+        defeatedEntries: [entry(1, "K1")],
+        coins: 12,
+      }),
+      stats({
+        defeatedCount: 1,
+        defeatedEntries: [entry(1, "K1"), entry(2, "K2")],
+        coins: 7,
+        revealedCount: 30,
+      }),
+    );
+    expect(merged.defeatedEntries.map((e) => e.name)).toEqual(["K1", "K2"]);
+    expect(merged.defeatedCount).toBe(2);
+    expect(merged.coins).toBe(12);
+    expect(merged.revealedCount).toBe(30);
+  });
+});
+
+describe("validateBundle", () => {
+  it("rejects anything that is not an export object", () => {
+    for (const raw of [null, 42, "text", [1, 2]]) {
+      const { bundle, errors } = validateBundle(raw);
+      expect(bundle).toBeNull();
+      expect(errors).toHaveLength(1);
+    }
+  });
+
+  it("rejects files of other apps and newer versions", () => {
+    expect(validateBundle({ app: "other" }).bundle).toBeNull();
+    expect(
+      validateBundle({
+        app: "better-usos",
+        schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+      }).bundle,
+    ).toBeNull();
+  });
+
+  it("skips malformed parts and reports each of them", () => {
+    const { bundle, errors } = validateBundle({
+      app: "better-usos",
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      host: "example.com",
+      statistics: {
+        coins: -3,
+        revealLog: [reveal(1, "K1"), { date: "wczoraj" }],
+      },
+      dashboard: "grid",
+      reveals: { "1": ["a", "", 2], "2": "all" },
+    });
+    expect(bundle).not.toBeNull();
+    expect(bundle?.host).toBeNull();
+    expect(bundle?.statistics?.coins).toBe(0);
+    expect(bundle?.statistics?.revealLog).toHaveLength(1);
+    expect(bundle?.dashboard).toBeNull();
+    expect(bundle?.reveals).toEqual({ "1": ["a", 2] });
+    expect(errors.length).toBeGreaterThanOrEqual(5);
+  });
+
+  it("reports reveals that are not an object", () => {
+    const { bundle, errors } = validateBundle({
+      app: "better-usos",
+      reveals: ["1"],
+    });
+    expect(bundle?.reveals).toEqual({});
+    expect(errors).toContain("reveals: oczekiwano obiektu");
+  });
+
+  it("accepts a well-formed bundle without errors", () => {
+    const { bundle, errors } = validateBundle({
+      app: "better-usos",
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      host: HOST,
+      statistics: stats({ coins: 3, revealLog: [reveal(1, "K1")] }),
+      dashboard: { order: ["a"], hidden: [] },
+      reveals: { "1": ["a"] },
+    });
+    expect(errors).toEqual([]);
+    expect(bundle?.host).toBe(HOST);
+    expect(bundle?.statistics?.coins).toBe(3);
+  });
+});
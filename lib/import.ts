@@ -0,0 +1,288 @@
+/**
+ * Import of a bundle produced by `exportData("json")`. The bundle is
+ * validated first, compared against what is already stored in the target
+ * university profile, and then either merged into or replacing its data.
+ */
+
+import { CURRENT_SCHEMA_VERSION } from "~lib/migrations";
+import {
+  dashboardKey,
+  isUsosHost,
+  revealKey,
+  revealKeyWezId,
+  statisticsKey,
+} from "~lib/profiles";
+import {
+  parseDashboardState,
+  parseRevealSet,
+  parseStatistics,
+  REVEAL_LOG_LIMIT,
+  SPIN_LOG_LIMIT,
+  type DashboardState,
+  type GradeEntry,
+  type GradeStatistics,
+  type RevealEvent,
+  type RevealId,
+  type SpinRecord,
+} from "~lib/schema";
+
+export type ImportMode = "merge" | "replace";
+
+export interface ValidatedBundle {
+  /** Profile the bundle was exported from; null for older exports */
+  host: string | null;
+  statistics: GradeStatistics | null;
+  dashboard: DashboardState | null;
+  reveals: Record<string, RevealId[]>;
+}
+
+export interface ImportPreview {
+  /** null when the file cannot be imported at all */
+  bundle: ValidatedBundle | null;
+  /** Problems found while validating (invalid parts are skipped) */
+  errors: string[];
+  /** Places where the bundle differs from data already stored */
+  conflicts: string[];
+}
+
+/** Validate parsed JSON against the export bundle shape */
+export function validateBundle(raw: unknown): {
+  bundle: ValidatedBundle | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { bundle: null, errors: ["Plik nie zawiera obiektu JSON"] };
+  }
+  const obj = raw as Record<string, unknown>;
+  if (obj.app !== "better-usos") {
+    return {
+      bundle: null,
+      errors: ["To nie jest plik eksportu Better USOS"],
+    };
+  }
+  if (
+    typeof obj.schemaVersion === "number" &&
+    obj.schemaVersion > CURRENT_SCHEMA_VERSION
+  ) {
+    return {
+      bundle: null,
+      errors: ["Plik pochodzi z nowszej wersji rozszerzenia – zaktualizuj je"],
+    };
+  }
+  const statistics =
+    obj.statistics == null ? null : parseStatistics(obj.statistics, errors);
+  const dashboard =
+    obj.dashboard == null ? null : parseDashboardState(obj.dashboard, errors);
+  const reveals: Record<string, RevealId[]> = {};
+  if (
+    obj.reveals &&
+    typeof obj.reveals === "object" &&
+    !Array.isArray(obj.reveals)
+  ) {
+    for (const [wezId, set] of Object.entries(obj.reveals)) {
+      const parsed = parseRevealSet(set, `reveals.${wezId}`, errors);
+      if (parsed) reveals[wezId] = parsed;
+    }
+  } else if (obj.reveals !== undefined) {
+    errors.push("reveals: oczekiwano obiektu");
+  }
+  const host =
+    typeof obj.host === "string" && isUsosHost(obj.host) ? obj.host : null;
+  return { bundle: { host, statistics, dashboard, reveals }, errors };
+}
+
+function sameSet(a: RevealId[], b: RevealId[]): boolean {
+  const set = new Set(a);
+  return a.length === b.length && b.every((i) => set.has(i));
+}
+
+/**
+ * Read and validate `text`, then list what would be overwritten in the
+ * profile of `host`
+ */
+export async function previewImport(
+  text: string,
+  host: string,
+): Promise<ImportPreview> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { bundle: null, errors: ["Niepoprawny JSON"], conflicts: [] };
+  }
+  const { bundle, errors } = validateBundle(raw);
+  if (!bundle) return { bundle, errors, conflicts: [] };
+
+  const current = await chrome.storage.local.get(null);
+  const conflicts: string[] = [];
+  if (bundle.host && bundle.host !== host) {
+    conflicts.push(`Plik pochodzi z ${bundle.host}, dane trafią do ${host}`);
+  }
+  const currentStats = current[statisticsKey(host)] as
+    Partial<GradeStatistics> | undefined;
+  if (bundle.statistics && currentStats) {
+    const s = bundle.statistics;
+    if (
+      s.revealedCount !== currentStats.revealedCount ||
+      s.coins !== currentStats.coins ||
+      s.defeatedCount !== currentStats.defeatedCount ||
+      s.failCount !== currentStats.failCount
+    ) {
+      conflicts.push(
+        `Statystyki: zapisane ${currentStats.revealedCount ?? 0} odsłoniętych / ${currentStats.coins ?? 0} monet, w pliku ${s.revealedCount} / ${s.coins}`,
+      );
+    }
+  }
+  const currentDashboard = current[dashboardKey(host)];
+  if (bundle.dashboard && currentDashboard) {
+    if (JSON.stringify(bundle.dashboard) !== JSON.stringify(currentDashboard)) {
+      conflicts.push("Układ dashboardu różni się od zapisanego");
+    }
+  }
+  for (const [wezId, set] of Object.entries(bundle.reveals)) {
+    const existing = current[revealKey(wezId, host)];
+    if (Array.isArray(existing) && !sameSet(existing, set)) {
+      conflicts.push(`Przedmiot ${wezId}: inne odsłonięte oceny`);
+    }
+  }
+  return { bundle, errors, conflicts };
+}
+
+function entryKey(e: GradeEntry): string {
+  return `${e.url}|${e.name}|${e.date}`;
+}
+
+function mergeEntries(a: GradeEntry[], b: GradeEntry[]): GradeEntry[] {
+  const byKey = new Map<string, GradeEntry>();
+  for (const e of [...a, ...b]) byKey.set(entryKey(e), e);
+  return Array.from(byKey.values()).sort((x, y) => x.date - y.date);
+}
+
+function mergeRevealLogs(a: RevealEvent[], b: RevealEvent[]): RevealEvent[] {
+  const byKey = new Map<string, RevealEvent>();
+  for (const e of [...a, ...b]) {
+    byKey.set(`${e.date}|${e.subject}|${e.name}|${e.value}`, e);
+  }
+  return Array.from(byKey.values())
+    .sort((x, y) => x.date - y.date)
+    .slice(-REVEAL_LOG_LIMIT);
+}
+
+function mergeSpinLogs(a: SpinRecord[], b: SpinRecord[]): SpinRecord[] {
+  const byKey = new Map<string, SpinRecord>();
+  for (const spin of [...a, ...b]) {
+    byKey.set(`${spin.date}|${spin.symbols.join("")}`, spin);
+  }
+  return Array.from(byKey.values())
+    .sort((x, y) => x.date - y.date)
+    .slice(-SPIN_LOG_LIMIT);
+}
+
+/**
+ * Union of two statistics: the larger of each counter, entry lists and
+ * logs without duplicates, oldest first
+ */
+export function mergeStatistics(
+  current: GradeStatistics,
+  imported: GradeStatistics,
+): GradeStatistics {
+  const defeatedEntries = mergeEntries(
+    current.defeatedEntries,
+    imported.defeatedEntries,
+  );
+  const failEntries = mergeEntries(current.failEntries, imported.failEntries);
+  return {
+    defeatedCount: Math.max(
+      current.defeatedCount,
+      imported.defeatedCount,
+      defeatedEntries.length,
+    ),
+    failCount: Math.max(
+      current.failCount,
+      imported.failCount,
+      failEntries.length,
+    ),
+    revealedCount: Math.max(current.revealedCount, imported.revealedCount),
+    totalGrades: Math.max(current.totalGrades, imported.totalGrades),
+    lastUpdated: Math.max(current.lastUpdated, imported.lastUpdated),
+    defeatedEntries,
+    failEntries,
+    coins: Math.max(current.coins, imported.coins),
+    lastFreeSpin: Math.max(current.lastFreeSpin, imported.lastFreeSpin),
+    revealLog: mergeRevealLogs(current.revealLog, imported.revealLog),
+    spinLog: mergeSpinLogs(current.spinLog, imported.spinLog),
+  };
+}
+
+/**
+ * Tell the open tabs of `host` that their cached profile data is stale.
+ * Without this a tab would write its cached statistics back over the
+ * imported ones on the next reveal.
+ */
+function notifyProfileTabs(host: string): void {
+  chrome.tabs.query({ url: `https://${host}/*` }, (tabs) => {
+    for (const tab of tabs) {
+      if (!tab.id) continue;
+      // A tab opened before the extension was loaded cannot answer
+      chrome.tabs.sendMessage(
+        tab.id,
+        { type: "DATA_IMPORTED", host },
+        () => void chrome.runtime.lastError,
+      );
+    }
+  });
+}
+
+/**
+ * Write a validated bundle to the profile of `host`. "replace" drops the
+ * current data
+ * (including reveal sets missing from the bundle); "merge" keeps the
+ * larger counters, unions entry lists and reveal sets, and keeps the
+ * current dashboard layout if there is one. Open tabs of `host` are
+ * reloaded afterwards.
+ */
+export async function applyImport(
+  bundle: ValidatedBundle,
+  mode: ImportMode,
+  host: string,
+): Promise<void> {
+  const current = await chrome.storage.local.get(null);
+  const updates: Record<string, unknown> = {};
+  const removals: string[] = [];
+  const statsKey = statisticsKey(host);
+  const layoutKey = dashboardKey(host);
+
+  if (bundle.statistics) {
+    const currentStats = parseStatistics(current[statsKey] ?? {}, []);
+    updates[statsKey] =
+      mode === "merge" && currentStats
+        ? mergeStatistics(currentStats, bundle.statistics)
+        : bundle.statistics;
+  }
+
+  if (bundle.dashboard) {
+    if (mode === "replace" || !current[layoutKey]) {
+      updates[layoutKey] = bundle.dashboard;
+    }
+  }
+
+  if (mode === "replace") {
+    for (const key of Object.keys(current)) {
+      const wezId = revealKeyWezId(key, host);
+      if (wezId !== null && !(wezId in bundle.reveals)) removals.push(key);
+    }
+  }
+  for (const [wezId, set] of Object.entries(bundle.reveals)) {
+    const key = revealKey(wezId, host);
+    const existing =
+      mode === "merge"
+        ? (parseRevealSet(current[key] ?? [], key, []) ?? [])
+        : [];
+    updates[key] = Array.from(new Set([...existing, ...set]));
+  }
+
+  if (removals.length > 0) await chrome.storage.local.remove(removals);
+  await chrome.storage.local.set(updates);
+  notifyProfileTabs(host);
+}
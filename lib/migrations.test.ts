@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { installFakeChrome, type FakeStorageArea } from "~lib/fake-chrome";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATION_LOCK_KEY,
+  runMigrations,
+  SCHEMA_VERSION_KEY,
+} from "~lib/migrations";
+import { NOTIFICATION_SETTINGS_KEY, SETTINGS_STORAGE_KEY } from "~lib/schema";
+
+const UW = "usosweb.uw.edu.pl";
+const PW = "usosweb.pw.edu.pl";
+const UJ = "usosweb.uj.edu.pl";
+
+function page(host: string, wezId: string): string {
+  return `https://${host}/kontroler.php?_action=dla_stud/studia/sprawdziany/pokaz&wez_id=${wezId}`;
+}
+
+/** Unversioned data as written before the first migration */
+const LEGACY = {
+  "better-usos-statistics": {
+    coins: 5,
+    revealedCount: 2,
+    defeatedEntries: "zepsute",
+  },
+  "better-usos-dashboard": { order: ["news"], hidden: [] },
+  "better-usos-grades-1": ["k1", 3],
+  "better-usos-grades-2": "zepsute",
+  "better-usos-seen-1": { k1: { value: 8, max: 10 } },
+  "better-usos-changes-1": {
+    subject: "Analiza",
+    url: page(PW, "1"),
+    entries: [],
+  },
+  "better-usos-weights-1": { k1: 2 },
+  "better-usos-summary-3": {
+    subject: "Fizyka",
+    url: page(UJ, "3"),
+    points: 0,
+    maxPoints: 0,
+    grade: null,
+    revealedCount: 0,
+    gradedCount: 0,
+    updated: 1,
+  },
+  "better-usos-thresholds-4": [],
+  "better-usos-achievements": [
+    {
+      id: "subject-revealed:1",
+      rule: "subject-revealed",
+      detail: "Analiza",
+      unlocked: 1,
+    },
+  ],
+};
+
+let local: FakeStorageArea;
+let sync: FakeStorageArea;
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  ({ local, sync } = installFakeChrome(LEGACY, {
+    [SETTINGS_STORAGE_KEY]: {
+      enabled: "tak",
+      showBanner: true,
+      themeId: "custom:usuniety",
+    },
+    [NOTIFICATION_SETTINGS_KEY]: { enabled: true, muted: ["1", "4"] },
+  }));
+});
+
+describe("runMigrations from unversioned data", () => {
+  it("upgrades to the current version and releases the lock", async () => {
+    await runMigrations(UW);
+    expect(local.data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+    expect(local.data[MIGRATION_LOCK_KEY]).toBeUndefined();
+  });
+
+  it("normalises v1 shapes and drops what cannot be read", async () => {
+    await runMigrations(UW);
+    expect(local.data[`better-usos-statistics@${UW}`]).toMatchObject({
+      coins: 5,
+      revealedCount: 2,
+      defeatedEntries: [],
+    });
+    expect(
+      Object.keys(local.data).some((key) => key.includes("grades-2")),
+    ).toBe(false);
+    expect(sync.data[SETTINGS_STORAGE_KEY]).toEqual({ showBanner: true });
+  });
+
+  it("moves every key into a profile, leaving no legacy key", async () => {
+    await runMigrations(UW);
+    const legacy = Object.keys(local.data).filter(
+      (key) => key.startsWith("better-usos-") && !key.includes("@"),
+    );
+    expect(legacy).toEqual([SCHEMA_VERSION_KEY]);
+    expect(local.data[`better-usos-dashboard@${UW}`]).toEqual({
+      order: ["news"],
+      hidden: [],
+    });
+    expect(local.data[`better-usos-achievements@${UW}`]).toHaveLength(1);
+  });
+
+  it("puts subjects on the university of their stored page", async () => {
+    await runMigrations(UW);
+    for (const prefix of ["grades", "seen", "changes", "weights"]) {
+      expect(local.data).toHaveProperty([`better-usos-${prefix}-1@${PW}`]);
+    }
+    expect(local.data).toHaveProperty([`better-usos-summary-3@${UJ}`]);
+    // No page stored: the university of the tab running the migration
+    expect(local.data).toHaveProperty([`better-usos-thresholds-4@${UW}`]);
+    expect(sync.data[NOTIFICATION_SETTINGS_KEY]).toEqual({
+      enabled: true,
+      muted: [`1@${PW}`, `4@${UW}`],
+    });
+  });
+
+  it("does not overwrite data already in a profile", async () => {
+    local.data[`better-usos-statistics@${UW}`] = { coins: 40 };
+    await runMigrations(UW);
+    expect(local.data[`better-usos-statistics@${UW}`]).toEqual({ coins: 40 });
+    expect(local.data["better-usos-statistics"]).toBeUndefined();
+  });
+});
+
+describe("runMigrations with several tabs", () => {
+  it("copies shared data into one profile only", async () => {
+    await Promise.all([runMigrations(UW), runMigrations(PW)]);
+    const profiles = [UW, PW].filter(
+      (host) => `better-usos-statistics@${host}` in local.data,
+    );
+    expect(profiles).toHaveLength(1);
+    expect(local.data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+    expect(local.data[MIGRATION_LOCK_KEY]).toBeUndefined();
+  });
+
+  it("waits for the tab holding the lock", async () => {
+    local.data[MIGRATION_LOCK_KEY] = {
+      owner: "other-tab",
+      until: Date.now() + 30_000,
+    };
+    setTimeout(() => {
+      local.data[SCHEMA_VERSION_KEY] = CURRENT_SCHEMA_VERSION;
+    }, 150);
+    await runMigrations(UW);
+    // The other tab did the work; this one touched nothing
+    expect(local.data["better-usos-statistics"]).toBeDefined();
+    expect(local.data[MIGRATION_LOCK_KEY]).toMatchObject({
+      owner: "other-tab",
+    });
+  });
+
+  it("takes over the lock of a tab that died mid-migration", async () => {
+    local.data[MIGRATION_LOCK_KEY] = {
+      owner: "closed-tab",
+      until: Date.now() - 1,
+    };
+    await runMigrations(UW);
+    expect(local.data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+    expect(local.data[`better-usos-statistics@${UW}`]).toBeDefined();
+  });
+
+  it("does nothing once the data is current", async () => {
+    local.data[SCHEMA_VERSION_KEY] = CURRENT_SCHEMA_VERSION;
+    await runMigrations(UW);
+    expect(local.data["better-usos-statistics"]).toBeDefined();
+    expect(local.data[`better-usos-statistics@${UW}`]).toBeUndefined();
+  });
+});
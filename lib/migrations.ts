@@ -0,0 +1,353 @@
+/**
+ * Versioned storage schema. Every change to persisted data gets a new
+ * migration here; `runMigrations` applies the pending ones in order before
+ * the content script loads its caches, so old data is upgraded instead of
+ * being dropped by the validators in ~lib/schema.
+ */
+
+import {
+  achievementsKey,
+  isUsosHost,
+  parseProfileKey,
+  profileKey,
+  subjectKey,
+} from "~lib/profiles";
+import {
+  ACHIEVEMENTS_STORAGE_KEY,
+  CHANGES_KEY_PREFIX,
+  CUSTOM_THEMES_STORAGE_KEY,
+  DASHBOARD_STORAGE_KEY,
+  GRADES_KEY_PREFIX,
+  isThemeId,
+  NOTIFICATION_SETTINGS_KEY,
+  parseCustomThemes,
+  parseDashboardState,
+  parseRevealSet,
+  parseStatistics,
+  SEEN_KEY_PREFIX,
+  SETTINGS_STORAGE_KEY,
+  STATISTICS_STORAGE_KEY,
+  SUMMARY_KEY_PREFIX,
+  THRESHOLDS_KEY_PREFIX,
+  WEIGHTS_KEY_PREFIX,
+} from "~lib/schema";
+
+/** chrome.storage.local key holding the schema version of stored data */
+export const SCHEMA_VERSION_KEY = "better-usos-schema-version";
+/** localStorage key holding the schema version of the per-site caches */
+export const CACHE_VERSION_KEY = "better-usos-cache-version";
+
+/** Keys stored per subject, `<prefix><wez_id>` before v3 */
+const SUBJECT_KEY_PREFIXES = [
+  GRADES_KEY_PREFIX,
+  SEEN_KEY_PREFIX,
+  CHANGES_KEY_PREFIX,
+  SUMMARY_KEY_PREFIX,
+  WEIGHTS_KEY_PREFIX,
+  THRESHOLDS_KEY_PREFIX,
+];
+
+/** USOSweb hostname of a stored value's `url` (change logs, summaries) */
+function pageHostOf(value: unknown): string | null {
+  const url = (value as { url?: unknown } | null)?.url;
+  if (typeof url !== "string") return null;
+  try {
+    const host = new URL(url).hostname;
+    return isUsosHost(host) ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+interface Migration {
+  /** Schema version the data has after this migration */
+  to: number;
+  description: string;
+  /** `host` is the USOSweb hostname of the page running the migration */
+  run: (host: string) => Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description: "Normalise unversioned data to the v1 shapes",
+    run: async () => {
+      const all = await chrome.storage.local.get(null);
+      const updates: Record<string, unknown> = {};
+      const removals: string[] = [];
+      const errors: string[] = [];
+
+      if (all[STATISTICS_STORAGE_KEY] !== undefined) {
+        const stats = parseStatistics(all[STATISTICS_STORAGE_KEY], errors);
+        if (stats) updates[STATISTICS_STORAGE_KEY] = stats;
+        else removals.push(STATISTICS_STORAGE_KEY);
+      }
+      if (all[DASHBOARD_STORAGE_KEY] !== undefined) {
+        const state = parseDashboardState(all[DASHBOARD_STORAGE_KEY], errors);
+        if (state) updates[DASHBOARD_STORAGE_KEY] = state;
+        else removals.push(DASHBOARD_STORAGE_KEY);
+      }
+      for (const [key, value] of Object.entries(all)) {
+        if (!key.startsWith(GRADES_KEY_PREFIX)) continue;
+        const set = parseRevealSet(value, key, errors);
+        if (set) updates[key] = set;
+        else removals.push(key);
+      }
+      if (errors.length > 0) {
+        console.warn(
+          "[Better USOS] migration v1 dropped invalid data:",
+          errors,
+        );
+      }
+      if (removals.length > 0) await chrome.storage.local.remove(removals);
+      if (Object.keys(updates).length > 0) {
+        await chrome.storage.local.set(updates);
+      }
+
+      // Settings in sync storage: drop malformed v1 fields, keep the rest
+      if (!chrome.storage.sync) return;
+      const res = await chrome.storage.sync.get(SETTINGS_STORAGE_KEY);
+      const raw = res[SETTINGS_STORAGE_KEY];
+      if (raw === undefined) return;
+      const settings: Record<string, unknown> =
+        raw && typeof raw === "object" && !Array.isArray(raw)
+          ? { ...(raw as Record<string, unknown>) }
+          : {};
+      if (typeof settings.enabled !== "boolean") delete settings.enabled;
+      if (typeof settings.showBanner !== "boolean") delete settings.showBanner;
+      // Built-in themes, automatic modes and custom themes that still exist
+      const customIds: string[] = parseCustomThemes(
+        all[CUSTOM_THEMES_STORAGE_KEY] ?? [],
+        CUSTOM_THEMES_STORAGE_KEY,
+        [],
+      ).map((theme) => theme.id);
+      if (
+        !isThemeId(settings.themeId) ||
+        (settings.themeId.startsWith("custom:") &&
+          !customIds.includes(settings.themeId))
+      ) {
+        delete settings.themeId;
+      }
+      await chrome.storage.sync.set({ [SETTINGS_STORAGE_KEY]: settings });
+    },
+  },
+  {
+    to: 2,
+    description: "Key reveal sets and weights by stable grade ids",
+    // Index -> id needs the grades tree, so the content script converts
+    // each subject when its page is opened; the bump only marks that
+    // newer data may hold string ids that v1 cannot read.
+    run: async () => {},
+  },
+  {
+    to: 3,
+    description:
+      "Move dashboard, statistics and per-subject data into per-university profiles",
+    // One copy used to be shared by every university. Change logs and
+    // summaries remember their page, which tells the university of a
+    // subject; the rest most likely belongs to the first one opened
+    run: async (host) => {
+      const all = await chrome.storage.local.get(null);
+      const subjectHosts = new Map<string, string>();
+      for (const prefix of [CHANGES_KEY_PREFIX, SUMMARY_KEY_PREFIX]) {
+        for (const [key, value] of Object.entries(all)) {
+          if (!key.startsWith(prefix) || parseProfileKey(key)) continue;
+          const pageHost = pageHostOf(value);
+          if (pageHost) subjectHosts.set(key.slice(prefix.length), pageHost);
+        }
+      }
+
+      const updates: Record<string, unknown> = {};
+      const removals: string[] = [];
+      for (const [key, value] of Object.entries(all)) {
+        if (parseProfileKey(key)) continue;
+        let target: string | null = null;
+        if (key === STATISTICS_STORAGE_KEY || key === DASHBOARD_STORAGE_KEY) {
+          target = profileKey(key, host);
+        } else {
+          const prefix = SUBJECT_KEY_PREFIXES.find((p) => key.startsWith(p));
+          if (prefix) {
+            const wezId = key.slice(prefix.length);
+            target = subjectKey(prefix, wezId, subjectHosts.get(wezId) ?? host);
+          }
+        }
+        if (target === null) continue;
+        if (all[target] === undefined) updates[target] = value;
+        removals.push(key);
+      }
+      if (Object.keys(updates).length > 0) {
+        await chrome.storage.local.set(updates);
+      }
+      if (removals.length > 0) await chrome.storage.local.remove(removals);
+
+      // Muted subjects in the notification settings: wez_id -> wez_id@host
+      if (!chrome.storage.sync) return;
+      const res = await chrome.storage.sync.get(NOTIFICATION_SETTINGS_KEY);
+      const raw = res[NOTIFICATION_SETTINGS_KEY] as
+        { muted?: unknown } | undefined;
+      if (!raw || !Array.isArray(raw.muted)) return;
+      const muted = raw.muted.map((id: unknown) =>
+        typeof id === "string" && !id.includes("@")
+          ? profileKey(id, subjectHosts.get(id) ?? host)
+          : id,
+      );
+      await chrome.storage.sync.set({
+        [NOTIFICATION_SETTINGS_KEY]: { ...raw, muted },
+      });
+    },
+  },
+  {
+    to: 4,
+    description: "Move unlocked achievements into per-university profiles",
+    // Most likely earned at the university opened first, like statistics
+    // in v3
+    run: async (host) => {
+      const res = await chrome.storage.local.get([
+        ACHIEVEMENTS_STORAGE_KEY,
+        achievementsKey(host),
+      ]);
+      const unlocked = res[ACHIEVEMENTS_STORAGE_KEY];
+      if (unlocked === undefined) return;
+      if (res[achievementsKey(host)] === undefined) {
+        await chrome.storage.local.set({ [achievementsKey(host)]: unlocked });
+      }
+      await chrome.storage.local.remove(ACHIEVEMENTS_STORAGE_KEY);
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/** chrome.storage.local key of the tab currently running migrations */
+export const MIGRATION_LOCK_KEY = "better-usos-migration-lock";
+/** A lock older than this belongs to a tab that died mid-migration */
+const MIGRATION_LOCK_TTL = 30_000;
+/** Time for a concurrent claim of the lock to land before it is checked */
+const MIGRATION_LOCK_SETTLE = 100;
+const MIGRATION_POLL_INTERVAL = 100;
+
+interface MigrationLock {
+  owner: string;
+  until: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function storedVersion(res: Record<string, unknown>): number {
+  const stored = res[SCHEMA_VERSION_KEY];
+  return typeof stored === "number" ? stored : 0;
+}
+
+function activeLock(res: Record<string, unknown>): MigrationLock | null {
+  const lock = res[MIGRATION_LOCK_KEY] as Partial<MigrationLock> | undefined;
+  return lock &&
+    typeof lock.owner === "string" &&
+    typeof lock.until === "number" &&
+    lock.until > Date.now()
+    ? (lock as MigrationLock)
+    : null;
+}
+
+/**
+ * Take the migration lock for `owner`. Every USOSweb tab runs the content
+ * script, so two tabs (possibly of different universities) may start
+ * migrating at once; the claim is re-read after a pause and only the last
+ * writer goes ahead.
+ */
+async function claimMigrationLock(owner: string): Promise<boolean> {
+  const res = await chrome.storage.local.get(MIGRATION_LOCK_KEY);
+  if (activeLock(res)) return false;
+  const lock: MigrationLock = { owner, until: Date.now() + MIGRATION_LOCK_TTL };
+  await chrome.storage.local.set({ [MIGRATION_LOCK_KEY]: lock });
+  await sleep(MIGRATION_LOCK_SETTLE);
+  const check = await chrome.storage.local.get(MIGRATION_LOCK_KEY);
+  return activeLock(check)?.owner === owner;
+}
+
+/** Wait until another tab has finished migrating or its lock expired */
+async function waitForMigrations(): Promise<void> {
+  for (;;) {
+    const res = await chrome.storage.local.get([
+      SCHEMA_VERSION_KEY,
+      MIGRATION_LOCK_KEY,
+    ]);
+    if (storedVersion(res) >= CURRENT_SCHEMA_VERSION || !activeLock(res)) {
+      return;
+    }
+    await sleep(MIGRATION_POLL_INTERVAL);
+  }
+}
+
+/**
+ * Apply every migration newer than the stored schema version. The version
+ * is bumped after each step, so an interrupted run resumes where it failed.
+ * Only one tab migrates at a time: the others wait for it, and the version
+ * is re-read before each step in case another tab got there first.
+ */
+export async function runMigrations(host: string): Promise<void> {
+  const res = await chrome.storage.local.get(SCHEMA_VERSION_KEY);
+  if (storedVersion(res) >= CURRENT_SCHEMA_VERSION) return;
+
+  const owner = `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+  if (!(await claimMigrationLock(owner))) {
+    await waitForMigrations();
+    return;
+  }
+  try {
+    for (const migration of MIGRATIONS) {
+      const current = await chrome.storage.local.get([
+        SCHEMA_VERSION_KEY,
+        MIGRATION_LOCK_KEY,
+      ]);
+      if (activeLock(current)?.owner !== owner) return;
+      if (migration.to <= storedVersion(current)) continue;
+      try {
+        await migration.run(host);
+      } catch (err) {
+        console.warn(
+          `[Better USOS] migration to v${migration.to} failed (${migration.description}):`,
+          err,
+        );
+        return;
+      }
+      await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: migration.to });
+    }
+  } finally {
+    const current = await chrome.storage.local.get(MIGRATION_LOCK_KEY);
+    if (activeLock(current)?.owner === owner) {
+      await chrome.storage.local.remove(MIGRATION_LOCK_KEY);
+    }
+  }
+}
+
+/**
+ * Per-site localStorage caches (theme, banner, enabled) live on the USOS
+ * origin, so they are versioned separately and checked synchronously before
+ * the cached values are used. `keys` maps each cache key to a validator;
+ * values that fail it are removed and rebuilt from settings later.
+ */
+export function migrateLocalCaches(
+  keys: Record<string, (value: unknown) => boolean>,
+): void {
+  try {
+    const stored = parseInt(localStorage.getItem(CACHE_VERSION_KEY) ?? "0", 10);
+    if (stored >= CURRENT_SCHEMA_VERSION) return;
+    for (const [key, isValid] of Object.entries(keys)) {
+      const raw = localStorage.getItem(key);
+      if (raw === null) continue;
+      let value: unknown;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        localStorage.removeItem(key);
+        continue;
+      }
+      if (!isValid(value)) localStorage.removeItem(key);
+    }
+    localStorage.setItem(CACHE_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  } catch {
+    /* ignore */
+  }
+}
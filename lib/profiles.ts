@@ -0,0 +1,92 @@
+/**
+ * Per-university profiles. Dashboard layout, statistics, achievements
+ * and everything stored per subject belong to one USOSweb instance
+ * (wez_ids repeat between universities), so their storage keys end with
+ * its hostname: `better-usos-dashboard@usosweb.uw.edu.pl`. Settings, the
+ * shop, streaks and themes stay global.
+ */
+
+import {
+  ACHIEVEMENTS_STORAGE_KEY,
+  DASHBOARD_STORAGE_KEY,
+  GRADES_KEY_PREFIX,
+  STATISTICS_STORAGE_KEY,
+} from "~lib/schema";
+
+/** Hostnames the content script runs on */
+export const USOS_HOST = /^usosweb\.[^.]+\.edu\.pl$/;
+
+export function isUsosHost(host: string): boolean {
+  return USOS_HOST.test(host);
+}
+
+/** `key` of the profile of `host` */
+export function profileKey(key: string, host: string): string {
+  return `${key}@${host}`;
+}
+
+/** Base key and hostname of a profile key; null for global keys */
+export function parseProfileKey(
+  key: string,
+): { key: string; host: string } | null {
+  const at = key.lastIndexOf("@");
+  if (at < 0) return null;
+  const host = key.slice(at + 1);
+  return isUsosHost(host) ? { key: key.slice(0, at), host } : null;
+}
+
+export function statisticsKey(host: string): string {
+  return profileKey(STATISTICS_STORAGE_KEY, host);
+}
+
+export function dashboardKey(host: string): string {
+  return profileKey(DASHBOARD_STORAGE_KEY, host);
+}
+
+export function achievementsKey(host: string): string {
+  return profileKey(ACHIEVEMENTS_STORAGE_KEY, host);
+}
+
+/** Per-subject key: `<prefix><wez_id>@<host>` */
+export function subjectKey(
+  prefix: string,
+  wezId: string,
+  host: string,
+): string {
+  return profileKey(prefix + wezId, host);
+}
+
+/** wez_id and hostname of a per-subject key with `prefix`, else null */
+export function parseSubjectKey(
+  key: string,
+  prefix: string,
+): { wezId: string; host: string } | null {
+  const parsed = parseProfileKey(key);
+  if (!parsed || !parsed.key.startsWith(prefix)) return null;
+  return { wezId: parsed.key.slice(prefix.length), host: parsed.host };
+}
+
+/** Reveal set of subject `wezId`: `better-usos-grades-<wez_id>@<host>` */
+export function revealKey(wezId: string, host: string): string {
+  return subjectKey(GRADES_KEY_PREFIX, wezId, host);
+}
+
+/** wez_id of a reveal set key of `host`, null for any other key */
+export function revealKeyWezId(key: string, host: string): string | null {
+  const parsed = parseSubjectKey(key, GRADES_KEY_PREFIX);
+  return parsed?.host === host ? parsed.wezId : null;
+}
+
+/** Hostnames with any stored profile data, sorted */
+export function profileHosts(all: Record<string, unknown>): string[] {
+  const hosts = new Set<string>();
+  for (const key of Object.keys(all)) {
+    const parsed = parseProfileKey(key);
+    if (parsed) hosts.add(parsed.host);
+  }
+  return Array.from(hosts).sort();
+}
+
+export async function listProfiles(): Promise<string[]> {
+  return profileHosts(await chrome.storage.local.get(null));
+}
@@ -0,0 +1,39 @@
+/**
+ * Random numbers for the slot machine and confetti. Code that needs
+ * randomness takes an `Rng`, so a seeded generator reproduces the same
+ * spins and animations; the default one is seeded from Math.random.
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type Rng = () => number;
+
+/** Small 32-bit PRNG (mulberry32); same seed, same sequence */
+export function mulberry32(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Seeded generator, or a randomly seeded one when no seed is given */
+export function createRng(seed?: number): Rng {
+  return mulberry32(seed ?? Math.floor(Math.random() * 4294967296));
+}
+
+/** Integer in [0, max) */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+/** Float in [min, max) */
+export function randomBetween(rng: Rng, min: number, max: number): number {
+  return min + rng() * (max - min);
+}
+
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[randomInt(rng, items.length)];
+}
@@ -0,0 +1,954 @@
+/**
+ * Shapes of the data Better USOS persists in chrome.storage.local, plus
+ * validators that turn untrusted values (storage, imported files) into
+ * well-formed objects. Validators never throw: they drop what is invalid
+ * and describe every problem in `errors`.
+ */
+
+/**
+ * Statistics, the dashboard and every per-subject key below are stored per
+ * university, with `@<host>` appended (~lib/profiles)
+ */
+export const STATISTICS_STORAGE_KEY = "better-usos-statistics";
+export const DASHBOARD_STORAGE_KEY = "better-usos-dashboard";
+/** Reveal sets are stored per subject as `better-usos-grades-<wez_id>@<host>` */
+export const GRADES_KEY_PREFIX = "better-usos-grades-";
+/** Last seen value/max per grade id, stored as `better-usos-seen-<wez_id>@<host>` */
+export const SEEN_KEY_PREFIX = "better-usos-seen-";
+/** The background poller's own snapshot, `better-usos-polled-<wez_id>@<host>` */
+export const POLLED_KEY_PREFIX = "better-usos-polled-";
+/** Per-subject change log, stored as `better-usos-changes-<wez_id>@<host>` */
+export const CHANGES_KEY_PREFIX = "better-usos-changes-";
+/** Points summary per subject, stored as `better-usos-summary-<wez_id>@<host>` */
+export const SUMMARY_KEY_PREFIX = "better-usos-summary-";
+/** Weight per grade id, stored as `better-usos-weights-<wez_id>@<host>` */
+export const WEIGHTS_KEY_PREFIX = "better-usos-weights-";
+/** Grade threshold table, stored as `better-usos-thresholds-<wez_id>@<host>` */
+export const THRESHOLDS_KEY_PREFIX = "better-usos-thresholds-";
+/** Unlocked achievements (see ~lib/achievements), stored per university */
+export const ACHIEVEMENTS_STORAGE_KEY = "better-usos-achievements";
+/** Coin shop purchases and equipped cosmetics (see ~lib/shop) */
+export const SHOP_STORAGE_KEY = "better-usos-shop";
+export const STREAK_STORAGE_KEY = "better-usos-streak";
+export const CUSTOM_THEMES_STORAGE_KEY = "better-usos-themes";
+/** Global settings object in chrome.storage.sync */
+export const SETTINGS_STORAGE_KEY = "betterUsosSettings";
+/** Background polling settings in chrome.storage.sync */
+export const NOTIFICATION_SETTINGS_KEY = "betterUsosNotifications";
+
+export interface GradeEntry {
+  name: string;
+  subject: string;
+  /** Semester code such as "2025Z"; null for entries saved before it was tracked */
+  semester: string | null;
+  value: number;
+  max: number | null;
+  date: number;
+  url: string;
+}
+
+/** One revealed grade, kept for the history chart */
+export interface RevealEvent {
+  date: number;
+  name: string;
+  subject: string;
+  /** Semester code such as "2025Z", null when the page does not show one */
+  semester: string | null;
+  value: number;
+  max: number | null;
+}
+
+/** Oldest reveal events are dropped beyond this many */
+export const REVEAL_LOG_LIMIT = 2000;
+
+/** One pull of the slot machine lever */
+export interface SpinRecord {
+  date: number;
+  /** Symbols the three reels stopped on */
+  symbols: string[];
+  /** Coins paid out (0 for a loss) */
+  payout: number;
+  /** Whether the daily free spin was used instead of a coin */
+  free: boolean;
+}
+
+/** Oldest spins are dropped beyond this many */
+export const SPIN_LOG_LIMIT = 100;
+
+export interface GradeStatistics {
+  defeatedCount: number;
+  failCount: number;
+  revealedCount: number;
+  totalGrades: number;
+  lastUpdated: number;
+  defeatedEntries: GradeEntry[];
+  failEntries: GradeEntry[];
+  coins: number;
+  /**
+   * Time of the last daily free spin. No longer read: the daily claim is
+   * shared by all profiles in LoginStreak.claimed
+   */
+  lastFreeSpin: number;
+  revealLog: RevealEvent[];
+  spinLog: SpinRecord[];
+}
+
+export const EMPTY_STATS: GradeStatistics = {
+  defeatedCount: 0,
+  failCount: 0,
+  revealedCount: 0,
+  totalGrades: 0,
+  lastUpdated: 0,
+  defeatedEntries: [],
+  failEntries: [],
+  coins: 0,
+  lastFreeSpin: 0,
+  revealLog: [],
+  spinLog: [],
+};
+
+export interface SeenGrade {
+  value: number | null;
+  max: number | null;
+}
+
+export interface GradeChange {
+  /** Grade id (see RevealId) */
+  id: string;
+  name: string;
+  /** "new" = a value appeared, "changed" = an existing value differs */
+  kind: "new" | "changed";
+  oldValue: number | null;
+  newValue: number | null;
+  oldMax: number | null;
+  newMax: number | null;
+  date: number;
+}
+
+export interface SubjectChangeLog {
+  subject: string;
+  url: string;
+  /** Newest first */
+  entries: GradeChange[];
+}
+
+/** Grade on the Polish 2.0–5.0 scale with the minimum percentage it needs */
+export interface GradeThreshold {
+  grade: number;
+  min: number;
+}
+
+/** Grades that can be reached by points (2.0 = below the lowest threshold) */
+export const PASSING_GRADES = [3.0, 3.5, 4.0, 4.5, 5.0] as const;
+
+/**
+ * Last summary shown above a subject's grades tree (revealed grades only),
+ * kept for the grades overview card on the dashboard.
+ */
+export interface SubjectSummary {
+  subject: string;
+  url: string;
+  points: number;
+  maxPoints: number;
+  /** Predicted grade on the 2.0–5.0 scale, null when nothing is known */
+  grade: number | null;
+  revealedCount: number;
+  gradedCount: number;
+  updated: number;
+}
+
+/** Column span: 2 = 1/3, 3 = 1/2, 4 = 2/3, 6 = full row */
+export const SPAN_OPTIONS = [2, 3, 4, 6] as const;
+export type SpanValue = (typeof SPAN_OPTIONS)[number];
+
+export interface DashboardState {
+  order: string[];
+  hidden: string[];
+  /** frameId -> grid column span (2, 3, 4 or 6) */
+  spans?: Record<string, SpanValue>;
+}
+
+/** Bin counts offered for the per-node grade histogram */
+export const HISTOGRAM_BINS = [5, 10, 20] as const;
+export const DEFAULT_HISTOGRAM_BINS = 10;
+
+/**
+ * How hidden grades are revealed: shown right away, on click, after a
+ * countdown, or counted up from 0 ("drum roll").
+ */
+export const REVEAL_MODES = ["instant", "click", "timed", "roll"] as const;
+export type RevealMode = (typeof REVEAL_MODES)[number];
+export const DEFAULT_REVEAL_MODE: RevealMode = "click";
+
+export const REVEAL_MODE_LABELS: Record<RevealMode, string> = {
+  instant: "Od razu",
+  click: "Po kliknięciu",
+  timed: "Z odliczaniem",
+  roll: "Werble",
+};
+
+export function isRevealMode(value: unknown): value is RevealMode {
+  return (REVEAL_MODES as readonly unknown[]).includes(value);
+}
+
+/** One unlocked achievement */
+export interface UnlockedAchievement {
+  /** Rule id, plus ":<scope>" for rules unlocked per semester or subject */
+  id: string;
+  rule: string;
+  /** What the unlock refers to (semester code, subject name), if anything */
+  detail: string | null;
+  unlocked: number;
+}
+
+export const COSMETIC_CATEGORIES = [
+  "palette",
+  "overlay",
+  "confetti",
+  "reels",
+] as const;
+export type CosmeticCategory = (typeof COSMETIC_CATEGORIES)[number];
+
+export interface ShopState {
+  /** Ids of bought shop items */
+  owned: string[];
+  /** Equipped item per category; missing means the built-in default */
+  equipped: Partial<Record<CosmeticCategory, string>>;
+}
+
+export const EMPTY_SHOP: ShopState = { owned: [], equipped: {} };
+
+/** Built-in palettes; user-defined themes are "custom:<id>" */
+export const BUILTIN_THEMES = ["light", "dark", "contrast"] as const;
+export type BuiltinThemeId = (typeof BUILTIN_THEMES)[number];
+/** Modes that switch between light and dark on their own */
+export type AutoThemeMode = "system" | "schedule";
+export type ThemeId = BuiltinThemeId | AutoThemeMode | `custom:${string}`;
+
+export function isBuiltinThemeId(value: unknown): value is BuiltinThemeId {
+  return (BUILTIN_THEMES as readonly unknown[]).includes(value);
+}
+
+export function isAutoThemeMode(value: unknown): value is AutoThemeMode {
+  return value === "system" || value === "schedule";
+}
+
+export function isThemeId(value: unknown): value is ThemeId {
+  return (
+    isBuiltinThemeId(value) ||
+    isAutoThemeMode(value) ||
+    (typeof value === "string" && /^custom:[\w-]+$/.test(value))
+  );
+}
+
+/** Dark palette from `darkFrom` to `darkTo` (hours, local time) */
+export interface ThemeSchedule {
+  darkFrom: number;
+  darkTo: number;
+}
+
+export const DEFAULT_THEME_SCHEDULE: ThemeSchedule = {
+  darkFrom: 20,
+  darkTo: 7,
+};
+
+/** User-defined theme: CSS variables overriding a built-in palette */
+export interface CustomTheme {
+  id: `custom:${string}`;
+  name: string;
+  base: BuiltinThemeId;
+  /** CSS variable -> value; variables not listed come from the base */
+  vars: Record<string, string>;
+}
+
+/** Days of USOSweb visits; days are "YYYY-MM-DD" in the Europe/Warsaw zone */
+export interface LoginStreak {
+  /** Consecutive visited days ending on lastVisit */
+  current: number;
+  best: number;
+  lastVisit: string | null;
+  /** Visited days, oldest first */
+  visited: string[];
+  /** Days the daily free spin was used, oldest first */
+  claimed: string[];
+  /** Extra free spins earned on streak milestones */
+  bonusSpins: number;
+}
+
+/** Oldest days are dropped from the visited/claimed lists beyond this many */
+export const STREAK_DAYS_LIMIT = 120;
+
+export const EMPTY_STREAK: LoginStreak = {
+  current: 0,
+  best: 0,
+  lastVisit: null,
+  visited: [],
+  claimed: [],
+  bonusSpins: 0,
+};
+
+/** Polling intervals offered in the popup, in minutes */
+export const POLL_INTERVALS = [15, 30, 60, 180] as const;
+
+export interface NotificationSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  /** Put values (old → new) in the notification text */
+  showValues: boolean;
+  quietHours: boolean;
+  /** Quiet hours run from `quietFrom` to `quietTo` (hours, local time) */
+  quietFrom: number;
+  quietTo: number;
+  /** Subjects never polled, as `<wez_id>@<host>` (wez_id alone before v3) */
+  muted: string[];
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  intervalMinutes: 60,
+  showValues: false,
+  quietHours: true,
+  quietFrom: 22,
+  quietTo: 7,
+  muted: [],
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isCount(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+function isNullableNumber(v: unknown): v is number | null {
+  return v === null || (typeof v === "number" && Number.isFinite(v));
+}
+
+/** Pages of a USOSweb instance; stored links must match before becoming hrefs */
+export const USOS_PAGE_URL = /^https:\/\/usosweb\.[^.]+\.edu\.pl\//;
+
+export function isUsosPageUrl(v: unknown): v is string {
+  return typeof v === "string" && USOS_PAGE_URL.test(v);
+}
+
+export function parseGradeEntry(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): GradeEntry | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return null;
+  }
+  const { name, subject, value, max, date, url } = raw;
+  const semester = raw.semester ?? null;
+  if (
+    typeof name !== "string" ||
+    typeof subject !== "string" ||
+    !(semester === null || typeof semester === "string") ||
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    !(max === null || (typeof max === "number" && Number.isFinite(max))) ||
+    !isCount(date) ||
+    typeof url !== "string"
+  ) {
+    errors.push(`${path}: niepoprawny wpis oceny`);
+    return null;
+  }
+  return { name, subject, semester, value, max, date, url };
+}
+
+function parseEntryList(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): GradeEntry[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const out: GradeEntry[] = [];
+  raw.forEach((item, i) => {
+    const entry = parseGradeEntry(item, `${path}[${i}]`, errors);
+    if (entry) out.push(entry);
+  });
+  return out;
+}
+
+export function parseRevealEvent(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): RevealEvent | null {
+  if (
+    !isRecord(raw) ||
+    !isCount(raw.date) ||
+    typeof raw.name !== "string" ||
+    typeof raw.subject !== "string" ||
+    !(raw.semester === null || typeof raw.semester === "string") ||
+    typeof raw.value !== "number" ||
+    !Number.isFinite(raw.value) ||
+    !isNullableNumber(raw.max)
+  ) {
+    errors.push(`${path}: niepoprawne zdarzenie odsłonięcia`);
+    return null;
+  }
+  return {
+    date: raw.date,
+    name: raw.name,
+    subject: raw.subject,
+    semester: raw.semester,
+    value: raw.value,
+    max: raw.max,
+  };
+}
+
+function parseRevealLog(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): RevealEvent[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const out: RevealEvent[] = [];
+  raw.forEach((item, i) => {
+    const event = parseRevealEvent(item, `${path}[${i}]`, errors);
+    if (event) out.push(event);
+  });
+  return out;
+}
+
+function parseSpinLog(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): SpinRecord[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const out: SpinRecord[] = [];
+  raw.forEach((item, i) => {
+    if (
+      !isRecord(item) ||
+      !isCount(item.date) ||
+      !Array.isArray(item.symbols) ||
+      !item.symbols.every((sym) => typeof sym === "string") ||
+      !isCount(item.payout) ||
+      typeof item.free !== "boolean"
+    ) {
+      errors.push(`${path}[${i}]: niepoprawny zapis spinu`);
+      return;
+    }
+    out.push({
+      date: item.date,
+      symbols: item.symbols as string[],
+      payout: item.payout,
+      free: item.free,
+    });
+  });
+  return out;
+}
+
+/**
+ * Validate a statistics object. Missing fields fall back to EMPTY_STATS,
+ * invalid ones are reset and reported.
+ */
+export function parseStatistics(
+  raw: unknown,
+  errors: string[],
+): GradeStatistics | null {
+  if (!isRecord(raw)) {
+    errors.push("statistics: oczekiwano obiektu");
+    return null;
+  }
+  const stats: GradeStatistics = {
+    ...EMPTY_STATS,
+    defeatedEntries: parseEntryList(
+      raw.defeatedEntries,
+      "statistics.defeatedEntries",
+      errors,
+    ),
+    failEntries: parseEntryList(
+      raw.failEntries,
+      "statistics.failEntries",
+      errors,
+    ),
+    revealLog: parseRevealLog(raw.revealLog, "statistics.revealLog", errors),
+    spinLog: parseSpinLog(raw.spinLog, "statistics.spinLog", errors),
+  };
+  const counters = [
+    "defeatedCount",
+    "failCount",
+    "revealedCount",
+    "totalGrades",
+    "lastUpdated",
+    "coins",
+    "lastFreeSpin",
+  ] as const;
+  for (const key of counters) {
+    const v = raw[key];
+    if (v === undefined) continue;
+    if (isCount(v)) stats[key] = v;
+    else errors.push(`statistics.${key}: oczekiwano liczby ≥ 0`);
+  }
+  return stats;
+}
+
+function parseIdList(raw: unknown, path: string, errors: string[]): string[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const ids = raw.filter((id): id is string => typeof id === "string");
+  if (ids.length !== raw.length) errors.push(`${path}: pominięto nie-teksty`);
+  return ids;
+}
+
+export function parseDashboardState(
+  raw: unknown,
+  errors: string[],
+): DashboardState | null {
+  if (!isRecord(raw)) {
+    errors.push("dashboard: oczekiwano obiektu");
+    return null;
+  }
+  if (!Array.isArray(raw.order) || !Array.isArray(raw.hidden)) {
+    errors.push("dashboard: brak list order/hidden");
+    return null;
+  }
+  const state: DashboardState = {
+    order: parseIdList(raw.order, "dashboard.order", errors),
+    hidden: parseIdList(raw.hidden, "dashboard.hidden", errors),
+  };
+  if (raw.spans !== undefined) {
+    if (!isRecord(raw.spans)) {
+      errors.push("dashboard.spans: oczekiwano obiektu");
+    } else {
+      const spans: Record<string, SpanValue> = {};
+      for (const [id, span] of Object.entries(raw.spans)) {
+        if (SPAN_OPTIONS.includes(span as SpanValue)) {
+          spans[id] = span as SpanValue;
+        } else {
+          errors.push(`dashboard.spans.${id}: niedozwolona szerokość`);
+        }
+      }
+      state.spans = spans;
+    }
+  }
+  return state;
+}
+
+/**
+ * Revealed grade: a stable id built from the subject, the node's path in
+ * the grades tree and its name. Numbers are positional indices written by
+ * schema v1; the content script converts them the next time the subject's
+ * page is opened, since only the page knows which node an index meant.
+ */
+export type RevealId = string | number;
+
+/** A reveal set is a list of revealed grade ids */
+export function parseRevealSet(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): RevealId[] | null {
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return null;
+  }
+  const out = raw.filter(
+    (i): i is RevealId =>
+      (typeof i === "string" && i.length > 0) ||
+      (typeof i === "number" && Number.isInteger(i) && i >= 0),
+  );
+  if (out.length !== raw.length) {
+    errors.push(`${path}: pominięto niepoprawne identyfikatory`);
+  }
+  return out;
+}
+
+/** A seen-grades snapshot maps grade ids to the last value/max on the page */
+export function parseSeenGrades(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): Record<string, SeenGrade> | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return null;
+  }
+  const out: Record<string, SeenGrade> = {};
+  for (const [id, seen] of Object.entries(raw)) {
+    if (
+      isRecord(seen) &&
+      isNullableNumber(seen.value) &&
+      isNullableNumber(seen.max)
+    ) {
+      out[id] = { value: seen.value, max: seen.max };
+    } else {
+      errors.push(`${path}.${id}: niepoprawny wpis`);
+    }
+  }
+  return out;
+}
+
+export function parseChangeLog(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): SubjectChangeLog | null {
+  if (!isRecord(raw) || !Array.isArray(raw.entries)) {
+    errors.push(`${path}: oczekiwano obiektu z listą entries`);
+    return null;
+  }
+  const entries: GradeChange[] = [];
+  raw.entries.forEach((item, i) => {
+    if (
+      isRecord(item) &&
+      typeof item.id === "string" &&
+      typeof item.name === "string" &&
+      (item.kind === "new" || item.kind === "changed") &&
+      isNullableNumber(item.oldValue) &&
+      isNullableNumber(item.newValue) &&
+      isNullableNumber(item.oldMax) &&
+      isNullableNumber(item.newMax) &&
+      isCount(item.date)
+    ) {
+      entries.push({
+        id: item.id,
+        name: item.name,
+        kind: item.kind,
+        oldValue: item.oldValue,
+        newValue: item.newValue,
+        oldMax: item.oldMax,
+        newMax: item.newMax,
+        date: item.date,
+      });
+    } else {
+      errors.push(`${path}.entries[${i}]: niepoprawny wpis zmiany`);
+    }
+  });
+  if (raw.url !== undefined && !isUsosPageUrl(raw.url)) {
+    errors.push(`${path}.url: niepoprawny adres strony ocen`);
+  }
+  return {
+    subject: typeof raw.subject === "string" ? raw.subject : "",
+    url: isUsosPageUrl(raw.url) ? raw.url : "",
+    entries,
+  };
+}
+
+function isHour(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 23;
+}
+
+/** Validate notification settings; invalid fields fall back to defaults */
+export function parseNotificationSettings(raw: unknown): NotificationSettings {
+  const out: NotificationSettings = {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    muted: [],
+  };
+  if (!isRecord(raw)) return out;
+  if (typeof raw.enabled === "boolean") out.enabled = raw.enabled;
+  if (
+    typeof raw.intervalMinutes === "number" &&
+    (POLL_INTERVALS as readonly number[]).includes(raw.intervalMinutes)
+  ) {
+    out.intervalMinutes = raw.intervalMinutes;
+  }
+  if (typeof raw.showValues === "boolean") out.showValues = raw.showValues;
+  if (typeof raw.quietHours === "boolean") out.quietHours = raw.quietHours;
+  if (isHour(raw.quietFrom)) out.quietFrom = raw.quietFrom;
+  if (isHour(raw.quietTo)) out.quietTo = raw.quietTo;
+  if (Array.isArray(raw.muted)) {
+    out.muted = raw.muted.filter((id): id is string => typeof id === "string");
+  }
+  return out;
+}
+
+export function parseSubjectSummary(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): SubjectSummary | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.subject !== "string" ||
+    !isUsosPageUrl(raw.url) ||
+    !isCount(raw.points) ||
+    !isCount(raw.maxPoints) ||
+    !isNullableNumber(raw.grade) ||
+    !isCount(raw.revealedCount) ||
+    !isCount(raw.gradedCount) ||
+    !isCount(raw.updated)
+  ) {
+    errors.push(`${path}: niepoprawne podsumowanie przedmiotu`);
+    return null;
+  }
+  return {
+    subject: raw.subject,
+    url: raw.url,
+    points: raw.points,
+    maxPoints: raw.maxPoints,
+    grade: raw.grade,
+    revealedCount: raw.revealedCount,
+    gradedCount: raw.gradedCount,
+    updated: raw.updated,
+  };
+}
+
+/** Grade weights (grade id -> weight); non-finite and negative ones are dropped */
+export function parseWeights(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return out;
+  }
+  for (const [id, weight] of Object.entries(raw)) {
+    if (isCount(weight)) out[id] = weight;
+    else errors.push(`${path}.${id}: niepoprawna waga`);
+  }
+  return out;
+}
+
+/**
+ * Grade thresholds: one per passing grade, in order, with minimums between
+ * 0 and 100% that never decrease. Null when the list is not usable.
+ */
+export function parseThresholds(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): GradeThreshold[] | null {
+  if (!Array.isArray(raw) || raw.length !== PASSING_GRADES.length) {
+    errors.push(`${path}: oczekiwano listy ${PASSING_GRADES.length} progów`);
+    return null;
+  }
+  const out: GradeThreshold[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const item: unknown = raw[i];
+    if (
+      !isRecord(item) ||
+      item.grade !== PASSING_GRADES[i] ||
+      !isCount(item.min) ||
+      item.min > 100
+    ) {
+      errors.push(`${path}[${i}]: niepoprawny próg`);
+      return null;
+    }
+    if (i > 0 && item.min < out[i - 1].min) {
+      errors.push(`${path}[${i}]: próg niższy niż dla niższej oceny`);
+      return null;
+    }
+    out.push({ grade: PASSING_GRADES[i], min: item.min });
+  }
+  return out;
+}
+
+/** Per-subject reveal modes (wez_id -> mode); invalid entries are dropped */
+export function parseRevealOverrides(raw: unknown): Record<string, RevealMode> {
+  const out: Record<string, RevealMode> = {};
+  if (!isRecord(raw)) return out;
+  for (const [wezId, mode] of Object.entries(raw)) {
+    if (isRevealMode(mode)) out[wezId] = mode;
+  }
+  return out;
+}
+
+export function parseAchievements(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): UnlockedAchievement[] | null {
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return null;
+  }
+  const out: UnlockedAchievement[] = [];
+  raw.forEach((item, i) => {
+    if (
+      !isRecord(item) ||
+      typeof item.id !== "string" ||
+      typeof item.rule !== "string" ||
+      !(item.detail === null || typeof item.detail === "string") ||
+      !isCount(item.unlocked)
+    ) {
+      errors.push(`${path}[${i}]: niepoprawne osiągnięcie`);
+      return;
+    }
+    out.push({
+      id: item.id,
+      rule: item.rule,
+      detail: item.detail,
+      unlocked: item.unlocked,
+    });
+  });
+  return out;
+}
+
+export function parseShopState(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): ShopState | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return null;
+  }
+  const owned = parseIdList(raw.owned ?? [], `${path}.owned`, errors);
+  const equipped: ShopState["equipped"] = {};
+  if (isRecord(raw.equipped)) {
+    for (const category of COSMETIC_CATEGORIES) {
+      const id = raw.equipped[category];
+      if (id === undefined) continue;
+      if (typeof id === "string" && owned.includes(id)) {
+        equipped[category] = id;
+      } else {
+        errors.push(`${path}.equipped.${category}: nieznany przedmiot`);
+      }
+    }
+  } else if (raw.equipped !== undefined) {
+    errors.push(`${path}.equipped: oczekiwano obiektu`);
+  }
+  return { owned, equipped };
+}
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDayList(raw: unknown, path: string, errors: string[]): string[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const days = raw.filter(
+    (d): d is string => typeof d === "string" && DAY_RE.test(d),
+  );
+  if (days.length !== raw.length) errors.push(`${path}: pominięto złe daty`);
+  return days.slice(-STREAK_DAYS_LIMIT);
+}
+
+export function parseLoginStreak(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): LoginStreak | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return null;
+  }
+  const streak: LoginStreak = {
+    ...EMPTY_STREAK,
+    visited: parseDayList(raw.visited, `${path}.visited`, errors),
+    claimed: parseDayList(raw.claimed, `${path}.claimed`, errors),
+  };
+  for (const key of ["current", "best", "bonusSpins"] as const) {
+    const v = raw[key];
+    if (v === undefined) continue;
+    if (isCount(v)) streak[key] = v;
+    else errors.push(`${path}.${key}: oczekiwano liczby ≥ 0`);
+  }
+  if (typeof raw.lastVisit === "string" && DAY_RE.test(raw.lastVisit)) {
+    streak.lastVisit = raw.lastVisit;
+  } else if (raw.lastVisit !== undefined && raw.lastVisit !== null) {
+    errors.push(`${path}.lastVisit: oczekiwano daty RRRR-MM-DD`);
+  }
+  return streak;
+}
+
+const CSS_VAR_RE = /^--[a-z0-9-]+$/;
+
+/** Plain CSS values only, nothing that could close the declaration */
+function isCssValue(v: unknown): v is string {
+  return (
+    typeof v === "string" &&
+    v.length > 0 &&
+    v.length <= 120 &&
+    !/[;{}<>\\]/.test(v)
+  );
+}
+
+export function parseCustomTheme(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): CustomTheme | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: oczekiwano obiektu`);
+    return null;
+  }
+  if (
+    !isThemeId(raw.id) ||
+    isBuiltinThemeId(raw.id) ||
+    isAutoThemeMode(raw.id)
+  ) {
+    errors.push(`${path}.id: niepoprawny identyfikator motywu`);
+    return null;
+  }
+  if (typeof raw.name !== "string" || raw.name.trim() === "") {
+    errors.push(`${path}.name: brak nazwy`);
+    return null;
+  }
+  if (!isBuiltinThemeId(raw.base)) {
+    errors.push(
+      `${path}.base: oczekiwano jednej z: ${BUILTIN_THEMES.join(", ")}`,
+    );
+    return null;
+  }
+  const vars: Record<string, string> = {};
+  if (isRecord(raw.vars)) {
+    for (const [name, value] of Object.entries(raw.vars)) {
+      if (CSS_VAR_RE.test(name) && isCssValue(value)) vars[name] = value;
+      else errors.push(`${path}.vars.${name}: niepoprawna wartość`);
+    }
+  } else if (raw.vars !== undefined) {
+    errors.push(`${path}.vars: oczekiwano obiektu`);
+  }
+  return {
+    id: raw.id,
+    name: raw.name.trim().slice(0, 60),
+    base: raw.base,
+    vars,
+  };
+}
+
+export function parseCustomThemes(
+  raw: unknown,
+  path: string,
+  errors: string[],
+): CustomTheme[] {
+  if (!Array.isArray(raw)) {
+    errors.push(`${path}: oczekiwano listy`);
+    return [];
+  }
+  const out: CustomTheme[] = [];
+  raw.forEach((item, i) => {
+    const theme = parseCustomTheme(item, `${path}[${i}]`, errors);
+    if (theme && !out.some((t) => t.id === theme.id)) out.push(theme);
+  });
+  return out;
+}
+
+/** Missing or broken hours fall back to the defaults one by one */
+export function parseThemeSchedule(raw: unknown): ThemeSchedule {
+  const hours = isRecord(raw) ? raw : {};
+  const hour = (v: unknown, fallback: number) =>
+    typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 23
+      ? v
+      : fallback;
+  return {
+    darkFrom: hour(hours.darkFrom, DEFAULT_THEME_SCHEDULE.darkFrom),
+    darkTo: hour(hours.darkTo, DEFAULT_THEME_SCHEDULE.darkTo),
+  };
+}
@@ -0,0 +1,357 @@
+/**
+ * CSS injected into the shadow roots of USOSweb web components, keyed by
+ * tag name. Page CSS cannot reach inside a shadow root, so this is how the
+ * components follow the palette variables set on <html> (dark mode,
+ * custom themes). The content script applies it to every matching host,
+ * including ones rendered after the page has loaded.
+ */
+
+export interface ShadowStyle {
+  css: string;
+  /** Only for hosts inside the shadow root of this component */
+  within?: string;
+  /** Append to adoptedStyleSheets so it wins over Lit's own sheets */
+  adopted?: boolean;
+}
+
+/** Styles shared by every usos-dialog, wherever it is opened from */
+const DIALOG_CSS = `
+    dialog {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #06022E) !important;
+    }
+    dialog::backdrop {
+      background: rgba(0, 0, 0, 0.6) !important;
+    }
+    #titlebar {
+      background: var(--background-secondary, #EFEFF1) !important;
+      color: var(--font-color, #06022E) !important;
+    }
+    #content {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #06022E) !important;
+    }
+    #close {
+      background: var(--font-color, #06022E) !important;
+    }
+    #close::before {
+      background: var(--background-secondary, #EFEFF1) !important;
+    }
+`;
+
+export const SHADOW_STYLES: Record<string, ShadowStyle[]> = {
+  "main-panel": [
+    {
+      css: `
+    #page-body {
+      display: flex !important;
+      justify-content: center !important;
+      min-height: calc(100vh - 3.5rem) !important;
+    }
+`,
+    },
+  ],
+
+  "usos-frame": [
+    {
+      css: `
+    :host {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+    }
+    #header {
+      background: transparent !important;
+      color: var(--usos-text, #1e293b) !important;
+      font-size: 1rem;
+      text-decoration: none !important;
+    }
+    #content {
+      color: var(--font-color, #1e293b) !important;
+    }
+    ::slotted(.datepicker-native-container) {
+      display: none !important;
+    }
+    .bu-frame-icon {
+      display: inline-flex !important;
+      align-items: center !important;
+      margin-right: 6px !important;
+      flex-shrink: 0 !important;
+    }
+    .bu-frame-icon svg {
+      width: 20px !important;
+      height: 20px !important;
+      stroke: var(--usos-primary, #3b82f6) !important;
+      fill: none !important;
+    }
+`,
+    },
+  ],
+
+  // Frame titles are all caps in USOSweb; show them in sentence case
+  "usos-link": [
+    {
+      within: "usos-frame",
+      css: `
+    a {
+      text-transform: lowercase;
+      display: inline-block;
+    }
+    a::first-letter {
+      text-transform: uppercase !important;
+    }
+`,
+    },
+  ],
+
+  "text-field": [
+    {
+      within: "usos-selector",
+      css: `
+    #input-cont input,
+    #input-cont {
+      border-radius: 10px !important;
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+      border-color: var(--border, #DADADE) !important;
+    }
+    #input-cont input::placeholder {
+      color: var(--grey, #4D4D4D) !important;
+    }
+    #suggestions {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+      border-color: var(--border, #DADADE) !important;
+    }
+    #suggestions .item:hover,
+    #suggestions .item.selected {
+      background: var(--background-secondary, #EFEFF1) !important;
+    }
+    label {
+      color: var(--font-color, #1e293b) !important;
+    }
+`,
+    },
+  ],
+
+  "select-field": [
+    {
+      css: `
+    select {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+      border-color: var(--border, #DADADE) !important;
+      border-radius: 10px !important;
+      padding: 6px 10px !important;
+    }
+`,
+    },
+  ],
+
+  "usos-tooltip": [
+    {
+      css: `
+    :host {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+      border-color: var(--border, #DADADE) !important;
+    }
+    .content {
+      background: var(--background, #fff) !important;
+      color: var(--font-color, #1e293b) !important;
+    }
+`,
+    },
+  ],
+
+  "tab-layout": [
+    {
+      css: `
+    :host {
+      color: var(--font-color, #1e293b) !important;
+    }
+    .tab {
+      color: var(--font-color, #1e293b) !important;
+      border-color: var(--border, #DADADE) !important;
+    }
+    .tab.active, .tab:hover {
+      color: var(--primary, #4F4C6A) !important;
+    }
+`,
+    },
+  ],
+
+  // Works in both light & dark via the CSS vars on <html>
+  "usos-timetable": [
+    {
+      css: `
+    :host {
+      color: var(--font-color, #06022E) !important;
+    }
+    #hours > div > div:first-child {
+      color: var(--font-color, #06022E) !important;
+    }
+    #hours > div > div:nth-child(2)::after {
+      border-color: var(--border, #DADADE) !important;
+    }
+    :host > div:first-child {
+      border-color: var(--border, #DADADE) !important;
+    }
+    #timetable {
+      --timetable-color-1: var(--bu-tt-color-1, #CEDED9) !important;
+      --timetable-color-1-border: var(--bu-tt-color-1-border, HSL(161, 20%, 54%)) !important;
+      --timetable-color-2: var(--bu-tt-color-2, #FEEFD9) !important;
+      --timetable-color-2-border: var(--bu-tt-color-2-border, HSL(36, 95%, 62%)) !important;
+      --timetable-color-3: var(--bu-tt-color-3, #DBE4F3) !important;
+      --timetable-color-3-border: var(--bu-tt-color-3-border, HSL(218, 50%, 61%)) !important;
+      --timetable-color-4: var(--bu-tt-color-4, #E1D8E4) !important;
+      --timetable-color-4-border: var(--bu-tt-color-4-border, HSL(285, 18%, 57%)) !important;
+      --timetable-color-5: var(--bu-tt-color-5, #E5EEBE) !important;
+      --timetable-color-5-border: var(--bu-tt-color-5-border, HSL(71, 59%, 54%)) !important;
+      --timetable-color-6: var(--bu-tt-color-6, #FCF5C7) !important;
+      --timetable-color-6-border: var(--bu-tt-color-6-border, HSL(52, 90%, 58%)) !important;
+      --timetable-color-7: var(--bu-tt-color-7, #E1E1E6) !important;
+      --timetable-color-7-border: var(--bu-tt-color-7-border, HSL(240, 9%, 59%)) !important;
+      --timetable-color-8: var(--bu-tt-color-8, #EDDBDF) !important;
+      --timetable-color-8-border: var(--bu-tt-color-8-border, HSL(347, 33%, 59%)) !important;
+    }
+    #timetable > ::slotted(*) {
+      border-color: var(--border, #DADADE) !important;
+    }
+    .pseudo-header {
+      color: var(--font-color, #06022E) !important;
+    }
+`,
+    },
+  ],
+
+  // Transparent in dark mode, the original background in light
+  "timetable-day": [
+    {
+      css: `
+    :host {
+      background: var(--bu-tt-day-bg, #fafafa) !important;
+      border-color: var(--border, #DADADE) !important;
+    }
+`,
+    },
+  ],
+
+  "timetable-entry": [
+    {
+      css: `
+    :host {
+      color: var(--font-color, #06022E) !important;
+    }
+    #przedmiot {
+      color: var(--font-color, #06022E) !important;
+    }
+    #info {
+      color: var(--font-color, #06022E) !important;
+      opacity: 0.85;
+    }
+    #time {
+      color: var(--font-color, #06022E) !important;
+      opacity: 0.85;
+    }
+    :host usos-dialog {
+      --primary: var(--background-secondary, #EFEFF1) !important;
+      --on-primary: var(--font-color, #06022E) !important;
+    }
+`,
+    },
+  ],
+
+  "usos-dialog": [
+    { css: DIALOG_CSS },
+    // Class details popup of a timetable entry
+    {
+      within: "timetable-entry",
+      css: `
+    #details {
+      color: var(--font-color, #06022E) !important;
+    }
+    #details a {
+      color: var(--primary, #818cf8) !important;
+    }
+`,
+    },
+  ],
+
+  "help-dialog": [
+    {
+      css: `
+    :host {
+      color: var(--font-color, #06022E) !important;
+    }
+`,
+    },
+  ],
+
+  // School banner: keep text white regardless of --on-primary
+  "app-header": [
+    {
+      css: `
+    :host > div,
+    .content,
+    .content span {
+      color: #ffffff !important;
+    }
+`,
+    },
+  ],
+
+  // Indeks page tiles
+  "usos-module-link-tile": [
+    {
+      adopted: true,
+      css: `
+    a {
+      color: inherit !important;
+      text-decoration: none !important;
+    }
+    #icon {
+      background-color: var(--font-color, #4F4C6A) !important;
+    }
+    #title {
+      color: var(--font-color, var(--primary, #4F4C6A)) !important;
+    }
+    #title ::slotted(*) {
+      color: var(--font-color, var(--primary, #4F4C6A)) !important;
+    }
+    #text {
+      color: var(--on-background, #333) !important;
+    }
+    #text ::slotted(*) {
+      color: var(--on-background, #333) !important;
+    }
+`,
+    },
+  ],
+
+  "menu-left": [
+    {
+      css: `
+    /* Hide empty separators */
+    ::slotted(li:empty) { display: none !important; }
+`,
+    },
+  ],
+};
+
+/**
+ * Styles for a host with tag `tag`; `parentTag` is the host of the shadow
+ * root it lives in, or null in the page's own DOM.
+ */
+export function shadowStylesFor(
+  tag: string,
+  parentTag: string | null,
+): ShadowStyle[] {
+  return (SHADOW_STYLES[tag] ?? []).filter(
+    (style) => style.within === undefined || style.within === parentTag,
+  );
+}
+
+/** Custom element names always contain a hyphen */
+export function isCustomElementTag(tag: string): boolean {
+  return tag.includes("-");
+}
@@ -0,0 +1,173 @@
+/**
+ * Coin shop: cosmetic items bought with slot coins. This module only
+ * knows the catalogue and the purchase rules; what an item looks like is
+ * up to the content script (palettes, overlay texts, confetti) and
+ * ~lib/slots (reel sets).
+ */
+
+import {
+  EMPTY_SHOP,
+  parseShopState,
+  SHOP_STORAGE_KEY,
+  type CosmeticCategory,
+  type ShopState,
+} from "~lib/schema";
+
+export interface ShopItem {
+  id: string;
+  category: CosmeticCategory;
+  name: string;
+  description: string;
+  price: number;
+  /** Key of the cosmetic within its category (palette id, reel set id, ...) */
+  value: string;
+}
+
+export const CATEGORY_LABELS: Record<CosmeticCategory, string> = {
+  palette: "Palety kolorów (zamiast motywu jasnego lub ciemnego)",
+  overlay: "Napisy DEFEATED / FAILED",
+  confetti: "Konfetti",
+  reels: "Symbole bębnów",
+};
+
+/** Items in display order; every category also has a free built-in default */
+export const SHOP_ITEMS: ShopItem[] = [
+  {
+    id: "palette-sepia",
+    category: "palette",
+    name: "Sepia",
+    description: "Ciepły, papierowy jasny motyw.",
+    price: 30,
+    value: "sepia",
+  },
+  {
+    id: "palette-forest",
+    category: "palette",
+    name: "Las nocą",
+    description: "Ciemny motyw w odcieniach zieleni.",
+    price: 40,
+    value: "forest",
+  },
+  {
+    id: "palette-synthwave",
+    category: "palette",
+    name: "Synthwave",
+    description: "Ciemny fiolet z różowymi akcentami.",
+    price: 60,
+    value: "synthwave",
+  },
+  {
+    id: "overlay-elden",
+    category: "overlay",
+    name: "Wrogowie pokonani",
+    description: "ENEMY FELLED / YOU DIED",
+    price: 25,
+    value: "elden",
+  },
+  {
+    id: "overlay-polish",
+    category: "overlay",
+    name: "Po polsku",
+    description: "ZALICZONE / OBLANE",
+    price: 20,
+    value: "polish",
+  },
+  {
+    id: "confetti-stars",
+    category: "confetti",
+    name: "Gwiazdki",
+    description: "Odsłonięta ocena sypie gwiazdkami.",
+    price: 15,
+    value: "stars",
+  },
+  {
+    id: "confetti-gold",
+    category: "confetti",
+    name: "Złoto",
+    description: "Złote drobinki zamiast kropek.",
+    price: 20,
+    value: "gold",
+  },
+  {
+    id: "reels-study",
+    category: "reels",
+    name: "Sesja",
+    description: "📎 ✏️ 📏 📓 🔔 🎓 🏆 💯",
+    price: 35,
+    value: "study",
+  },
+  {
+    id: "reels-space",
+    category: "reels",
+    name: "Kosmos",
+    description: "🌑 ☄️ 🛰️ 🪐 🌟 👽 🚀 🌌",
+    price: 35,
+    value: "space",
+  },
+];
+
+export function getShopItem(id: string): ShopItem | undefined {
+  return SHOP_ITEMS.find((item) => item.id === id);
+}
+
+/** Value of the equipped item of a category, undefined for the default */
+export function equippedValue(
+  state: ShopState,
+  category: CosmeticCategory,
+): string | undefined {
+  const id = state.equipped[category];
+  return id ? getShopItem(id)?.value : undefined;
+}
+
+export async function loadShopState(): Promise<ShopState> {
+  const res = await chrome.storage.local.get(SHOP_STORAGE_KEY);
+  const raw = res[SHOP_STORAGE_KEY];
+  if (raw === undefined) return { ...EMPTY_SHOP, equipped: {} };
+  const errors: string[] = [];
+  const state = parseShopState(raw, SHOP_STORAGE_KEY, errors);
+  if (errors.length > 0) {
+    console.warn("[Better USOS] invalid shop state in storage:", errors);
+  }
+  return state ?? { ...EMPTY_SHOP, equipped: {} };
+}
+
+export async function saveShopState(state: ShopState): Promise<void> {
+  await chrome.storage.local.set({ [SHOP_STORAGE_KEY]: state });
+}
+
+export type PurchaseResult =
+  { ok: true; state: ShopState; price: number } | { ok: false; reason: string };
+
+/** Buy an item with `coins` and equip it; the caller deducts the price */
+export function purchase(
+  state: ShopState,
+  coins: number,
+  id: string,
+): PurchaseResult {
+  const item = getShopItem(id);
+  if (!item) return { ok: false, reason: "Nieznany przedmiot." };
+  if (state.owned.includes(id)) return { ok: false, reason: "Już kupione." };
+  if (coins < item.price) {
+    return { ok: false, reason: `Za mało monet (potrzeba ${item.price}).` };
+  }
+  return {
+    ok: true,
+    price: item.price,
+    state: {
+      owned: [...state.owned, id],
+      equipped: { ...state.equipped, [item.category]: id },
+    },
+  };
+}
+
+/** Equip an owned item, or the default with `id` null */
+export function equip(
+  state: ShopState,
+  category: CosmeticCategory,
+  id: string | null,
+): ShopState {
+  const equipped = { ...state.equipped };
+  if (id === null) delete equipped[category];
+  else if (state.owned.includes(id)) equipped[category] = id;
+  return { ...state, equipped };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { mulberry32 } from "~lib/rng";
+import {
+  JACKPOT_MIN,
+  payoutDistribution,
+  REEL_SETS,
+  SLOT_EMOJIS,
+  slotPayout,
+  spinOutcome,
+  type PayoutKind,
+} from "~lib/slots";
+
+const SPINS = 100_000;
+
+describe("spinOutcome", () => {
+  it("is reproducible from a seed", () => {
+    const a = mulberry32(42);
+    const b = mulberry32(42);
+    for (let i = 0; i < 20; i++) {
+      expect(spinOutcome(a)).toEqual(spinOutcome(b));
+    }
+  });
+
+  it("stops every reel on a symbol of the reel set", () => {
+    const rng = mulberry32(7);
+    const reelSet = REEL_SETS.space;
+    for (let i = 0; i < 1000; i++) {
+      const { indices, symbols } = spinOutcome(rng, reelSet);
+      expect(indices).toHaveLength(3);
+      expect(symbols).toEqual(indices.map((index) => reelSet[index]));
+    }
+  });
+});
+
+describe("slotPayout", () => {
+  it("pays the triple of the matched symbol", () => {
+    expect(slotPayout(["7️⃣", "7️⃣", "7️⃣"])).toEqual({
+      coins: 77,
+      kind: "triple",
+      symbol: "7️⃣",
+    });
+    expect(slotPayout(["💎", "💎", "💎"]).coins).toBeGreaterThanOrEqual(
+      JACKPOT_MIN,
+    );
+    expect(slotPayout(["🍒", "🍒", "🍒"]).coins).toBeLessThan(JACKPOT_MIN);
+  });
+
+  it("finds a pair on any two reels", () => {
+    for (const symbols of [
+      ["💎", "💎", "🍒"],
+      ["💎", "🍒", "💎"],
+      ["🍒", "💎", "💎"],
+    ]) {
+      expect(slotPayout(symbols)).toEqual({
+        coins: 2,
+        kind: "pair",
+        symbol: "💎",
+      });
+    }
+  });
+
+  it("pays nothing for three different symbols", () => {
+    expect(slotPayout(["🍒", "🍋", "🍊"])).toEqual({
+      coins: 0,
+      kind: "none",
+      symbol: null,
+    });
+  });
+
+  it("pays a shop reel set like the classic symbols", () => {
+    const seven = REEL_SETS.study[SLOT_EMOJIS.indexOf("7️⃣")];
+    expect(slotPayout([seven, seven, seven], REEL_SETS.study)).toEqual({
+      coins: 77,
+      kind: "triple",
+      symbol: seven,
+    });
+  });
+});
+
+describe("payoutDistribution", () => {
+  it("matches the exact odds of three 8-symbol reels", () => {
+    const { chance, expected } = payoutDistribution();
+    expect(chance.triple).toBeCloseTo(8 / 512, 10);
+    expect(chance.pair).toBeCloseTo(168 / 512, 10);
+    expect(chance.none).toBeCloseTo(336 / 512, 10);
+    // Triples pay 181 coins in total, pairs 10 per pair slot (21 each)
+    expect(expected).toBeCloseTo((181 + 21 * 10) / 512, 10);
+  });
+
+  it("agrees with seeded spins", () => {
+    const rng = mulberry32(2024);
+    const counts: Record<PayoutKind, number> = { triple: 0, pair: 0, none: 0 };
+    let coins = 0;
+    for (let i = 0; i < SPINS; i++) {
+      const payout = slotPayout(spinOutcome(rng).symbols);
+      counts[payout.kind]++;
+      coins += payout.coins;
+    }
+    const { chance, expected } = payoutDistribution();
+    expect(counts.triple / SPINS).toBeCloseTo(chance.triple, 2);
+    expect(counts.pair / SPINS).toBeCloseTo(chance.pair, 2);
+    expect(counts.none / SPINS).toBeCloseTo(chance.none, 2);
+    expect(Math.abs(coins / SPINS - expected)).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Slot machine rules: symbols, payouts and spin outcomes. Pure functions –
+ * the reel animation in the content script only plays back an outcome.
+ */
+
+import { randomInt, type Rng } from "~lib/rng";
+
+export const SLOT_EMOJIS = ["🍒", "🍋", "🍊", "🍇", "⭐", "💎", "7️⃣", "🔔"];
+
+/** Coins paid per symbol for three of a kind and for a pair */
+export const SLOT_PAYOUTS: Record<string, { triple: number; pair: number }> = {
+  "🍒": { triple: 5, pair: 1 },
+  "🍋": { triple: 6, pair: 1 },
+  "🍊": { triple: 8, pair: 1 },
+  "🍇": { triple: 10, pair: 1 },
+  "🔔": { triple: 15, pair: 1 },
+  "⭐": { triple: 20, pair: 1 },
+  "💎": { triple: 40, pair: 2 },
+  "7️⃣": { triple: 77, pair: 2 },
+};
+
+/**
+ * Reel symbol sets from the shop. A set swaps the pictures only: the
+ * symbol at index i pays like SLOT_EMOJIS[i].
+ */
+export const REEL_SETS: Record<string, string[]> = {
+  classic: SLOT_EMOJIS,
+  study: ["📎", "✏️", "📏", "📓", "🔔", "🎓", "🏆", "💯"],
+  space: ["🌑", "☄️", "🛰️", "🪐", "🌟", "👽", "🚀", "🌌"],
+};
+
+/** Symbols of a reel set, the classic ones for unknown ids */
+export function getReelSet(id: string | undefined): string[] {
+  return (id && REEL_SETS[id]) || SLOT_EMOJIS;
+}
+
+/** Payout row of a symbol from `reelSet` */
+export function symbolPayout(
+  symbol: string,
+  reelSet: readonly string[] = SLOT_EMOJIS,
+): { triple: number; pair: number } | null {
+  const index = reelSet.indexOf(symbol);
+  return index === -1 ? null : (SLOT_PAYOUTS[SLOT_EMOJIS[index]] ?? null);
+}
+
+/** Triples paying at least this much count as a jackpot */
+export const JACKPOT_MIN = 40;
+
+export const REEL_COUNT = 3;
+
+export interface SpinOutcome {
+  /** Index in the reel set each reel stops on */
+  indices: number[];
+  symbols: string[];
+}
+
+export type PayoutKind = "triple" | "pair" | "none";
+
+export interface SlotPayout {
+  coins: number;
+  kind: PayoutKind;
+  /** The matched symbol, null for a miss */
+  symbol: string | null;
+}
+
+/** Where each reel stops; every symbol is equally likely */
+export function spinOutcome(
+  rng: Rng,
+  reelSet: readonly string[] = SLOT_EMOJIS,
+): SpinOutcome {
+  const indices = Array.from({ length: REEL_COUNT }, () =>
+    randomInt(rng, reelSet.length),
+  );
+  return { indices, symbols: indices.map((i) => reelSet[i]) };
+}
+
+/** Payout of one spin: three of a kind, a pair, or nothing */
+export function slotPayout(
+  symbols: readonly string[],
+  reelSet: readonly string[] = SLOT_EMOJIS,
+): SlotPayout {
+  const [a, b, c] = symbols;
+  if (a === b && b === c) {
+    const coins = symbolPayout(a, reelSet)?.triple ?? 0;
+    return { coins, kind: "triple", symbol: a };
+  }
+  const pair = a === b || a === c ? a : b === c ? b : null;
+  if (pair) {
+    const coins = symbolPayout(pair, reelSet)?.pair ?? 0;
+    return { coins, kind: "pair", symbol: pair };
+  }
+  return { coins: 0, kind: "none", symbol: null };
+}
+
+export interface PayoutDistribution {
+  /** Probability of each payout kind */
+  chance: Record<PayoutKind, number>;
+  /** Average coins paid per spin */
+  expected: number;
+}
+
+/** Exact odds, counted over every combination of reel stops */
+export function payoutDistribution(): PayoutDistribution {
+  const n = SLOT_EMOJIS.length;
+  const total = n ** REEL_COUNT;
+  const counts: Record<PayoutKind, number> = { triple: 0, pair: 0, none: 0 };
+  let coins = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      for (let k = 0; k < n; k++) {
+        const payout = slotPayout([
+          SLOT_EMOJIS[i],
+          SLOT_EMOJIS[j],
+          SLOT_EMOJIS[k],
+        ]);
+        counts[payout.kind]++;
+        coins += payout.coins;
+      }
+    }
+  }
+  return {
+    chance: {
+      triple: counts.triple / total,
+      pair: counts.pair / total,
+      none: counts.none / total,
+    },
+    expected: coins / total,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { EMPTY_STREAK } from "~lib/schema";
+import {
+  daysBetween,
+  recordVisit,
+  streakReward,
+  warsawDay,
+} from "~lib/streaks";
+
+/** Warsaw is UTC+2 (CEST) until 25 Oct 2026 03:00, then UTC+1 (CET) */
+const CEST_2330 = Date.parse("2026-10-23T21:30:00Z"); // Fri 23 Oct, 23:30
+const CEST_0030 = Date.parse("2026-10-23T22:30:00Z"); // Sat 24 Oct, 00:30
+const BEFORE_DST = Date.parse("2026-10-24T22:30:00Z"); // Sun 25 Oct, 00:30 CEST
+const AFTER_DST = Date.parse("2026-10-25T22:30:00Z"); // Sun 25 Oct, 23:30 CET
+const CET_0030 = Date.parse("2026-10-25T23:30:00Z"); // Mon 26 Oct, 00:30 CET
+
+describe("warsawDay", () => {
+  it("starts the day at midnight Warsaw time, not UTC", () => {
+    expect(warsawDay(CEST_2330)).toBe("2026-10-23");
+    expect(warsawDay(CEST_0030)).toBe("2026-10-24");
+  });
+
+  it("keeps the 25-hour day of the October change together", () => {
+    expect(warsawDay(BEFORE_DST)).toBe("2026-10-25");
+    // 02:30 happens twice that night, both on the same day
+    expect(warsawDay(Date.parse("2026-10-25T00:30:00Z"))).toBe("2026-10-25");
+    expect(warsawDay(Date.parse("2026-10-25T01:30:00Z"))).toBe("2026-10-25");
+    expect(warsawDay(AFTER_DST)).toBe("2026-10-25");
+    expect(warsawDay(CET_0030)).toBe("2026-10-26");
+  });
+
+  it("counts calendar days across the change", () => {
+    expect(daysBetween("2026-10-24", "2026-10-26")).toBe(2);
+    expect(daysBetween("2026-10-26", "2026-10-24")).toBe(-2);
+  });
+});
+
+describe("recordVisit", () => {
+  it("continues the streak from 23:30 to 00:30 the next day", () => {
+    const first = recordVisit(EMPTY_STREAK, warsawDay(CEST_2330));
+    const second = recordVisit(first.streak, warsawDay(CEST_0030));
+    expect(second.streak.current).toBe(2);
+    expect(second.streak.visited).toEqual(["2026-10-23", "2026-10-24"]);
+    expect(second.reward).toEqual(streakReward(2));
+  });
+
+  it("pays once for a day even when visits are 24 hours apart", () => {
+    const first = recordVisit(EMPTY_STREAK, warsawDay(BEFORE_DST));
+    const again = recordVisit(first.streak, warsawDay(AFTER_DST));
+    expect(again.reward).toBeNull();
+    expect(again.streak).toBe(first.streak);
+  });
+
+  it("moves on to the next day after the clocks go back", () => {
+    const first = recordVisit(EMPTY_STREAK, warsawDay(AFTER_DST));
+    const next = recordVisit(first.streak, warsawDay(CET_0030));
+    expect(next.streak.current).toBe(2);
+    expect(next.streak.lastVisit).toBe("2026-10-26");
+  });
+
+  it("restarts after a missed day", () => {
+    const first = recordVisit(EMPTY_STREAK, "2026-10-23");
+    const later = recordVisit(first.streak, "2026-10-25");
+    expect(later.streak.current).toBe(1);
+    expect(later.streak.best).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Login streaks: consecutive days with a USOSweb visit and the rewards
+ * they pay out. Days are counted in the Europe/Warsaw zone, so a visit at
+ * 00:30 Polish time is a new day no matter where the browser thinks it is.
+ */
+
+import {
+  EMPTY_STREAK,
+  parseLoginStreak,
+  STREAK_DAYS_LIMIT,
+  STREAK_STORAGE_KEY,
+  type LoginStreak,
+} from "~lib/schema";
+
+export const STREAK_TIME_ZONE = "Europe/Warsaw";
+
+const dayParts = new Intl.DateTimeFormat("en-CA", {
+  timeZone: STREAK_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/** "YYYY-MM-DD" of a timestamp in Europe/Warsaw */
+export function warsawDay(time: number): string {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of dayParts.formatToParts(new Date(time))) {
+    parts[type] = value;
+  }
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/** Midnight UTC of a day key, for calendar arithmetic only */
+function dayToUtc(day: string): number {
+  const [y, m, d] = day.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((dayToUtc(to) - dayToUtc(from)) / 86_400_000);
+}
+
+export interface StreakReward {
+  coins: number;
+  /** Bonus free spins */
+  spins: number;
+}
+
+/**
+ * Reward for the `length`-th day of a streak: one coin per day beyond the
+ * first (capped at 5) and a bonus spin every seventh day.
+ */
+export function streakReward(length: number): StreakReward {
+  return {
+    coins: Math.min(Math.max(length - 1, 0), 5),
+    spins: length > 0 && length % 7 === 0 ? 1 : 0,
+  };
+}
+
+function appendDay(days: string[], day: string): string[] {
+  if (days.includes(day)) return days;
+  return [...days, day].slice(-STREAK_DAYS_LIMIT);
+}
+
+/**
+ * Record a visit on `day`. Returns the reward when it is the first visit
+ * of that day, null when the day was already counted.
+ */
+export function recordVisit(
+  streak: LoginStreak,
+  day: string,
+): { streak: LoginStreak; reward: StreakReward | null } {
+  if (streak.lastVisit !== null && daysBetween(streak.lastVisit, day) <= 0) {
+    return { streak, reward: null };
+  }
+  const current =
+    streak.lastVisit !== null && daysBetween(streak.lastVisit, day) === 1
+      ? streak.current + 1
+      : 1;
+  const reward = streakReward(current);
+  return {
+    reward,
+    streak: {
+      ...streak,
+      current,
+      best: Math.max(streak.best, current),
+      lastVisit: day,
+      visited: appendDay(streak.visited, day),
+      bonusSpins: streak.bonusSpins + reward.spins,
+    },
+  };
+}
+
+/** Mark the daily free spin of `day` as used */
+export function claimDay(streak: LoginStreak, day: string): LoginStreak {
+  return { ...streak, claimed: appendDay(streak.claimed, day) };
+}
+
+export async function loadStreak(): Promise<LoginStreak> {
+  const res = await chrome.storage.local.get(STREAK_STORAGE_KEY);
+  const raw = res[STREAK_STORAGE_KEY];
+  if (raw === undefined) return { ...EMPTY_STREAK };
+  const errors: string[] = [];
+  const streak = parseLoginStreak(raw, STREAK_STORAGE_KEY, errors);
+  if (errors.length > 0) {
+    console.warn("[Better USOS] invalid login streak in storage:", errors);
+  }
+  return streak ?? { ...EMPTY_STREAK };
+}
+
+export async function saveStreak(streak: LoginStreak): Promise<void> {
+  await chrome.storage.local.set({ [STREAK_STORAGE_KEY]: streak });
+}
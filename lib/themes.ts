@@ -0,0 +1,240 @@
+/**
+ * Colour themes: the built-in light and dark palettes and user-defined
+ * themes stored on top of them. Shared by the content script (applies the
+ * CSS variables) and the options page (palette editor).
+ */
+
+import {
+  CUSTOM_THEMES_STORAGE_KEY,
+  isBuiltinThemeId,
+  parseCustomTheme,
+  parseCustomThemes,
+  type BuiltinThemeId,
+  type CustomTheme,
+  type ThemeId,
+  type ThemeSchedule,
+} from "~lib/schema";
+
+/** CSS variable -> value */
+export type Palette = Record<string, string>;
+
+export const LIGHT_PALETTE: Palette = {
+  "--usos-bg": "#f8fafc",
+  "--usos-surface": "#ffffff",
+  "--usos-border": "#e2e8f0",
+  "--usos-border-subtle": "#f1f5f9",
+  "--usos-primary": "#2563eb",
+  "--usos-primary-hover": "#1d4ed8",
+  "--usos-text": "#1e293b",
+  "--usos-text-muted": "#64748b",
+  "--usos-header-gradient": "#fafbfc",
+  "--usos-border-hover": "#cbd5e1",
+};
+
+export const DARK_PALETTE: Palette = {
+  // Better USOS custom variables
+  "--usos-bg": "#020617",
+  "--usos-surface": "#0f172a",
+  "--usos-border": "#1e293b",
+  "--usos-border-subtle": "#111827",
+  "--usos-primary": "#3b82f6",
+  "--usos-primary-hover": "#60a5fa",
+  "--usos-text": "#e2e8f0",
+  "--usos-text-muted": "#94a3b8",
+  "--usos-header-gradient": "#111827",
+  "--usos-border-hover": "#334155",
+  "--usos-shadow": "0 1px 3px rgba(0, 0, 0, 0.3)",
+  "--usos-shadow-md": "0 4px 12px rgba(0, 0, 0, 0.3)",
+  // Override USOS native variables so shadow DOM components inherit dark colors
+  "--font-color": "#e2e8f0",
+  "--primary": "#818cf8",
+  "--on-primary": "#020617",
+  "--secondary": "#fbbf24",
+  "--secondary-variant": "#f59e0b",
+  "--background": "#0f172a",
+  "--on-background": "#e2e8f0",
+  "--background-secondary": "#1e293b",
+  "--on-background-secondary": "#cbd5e1",
+  "--grey": "#94a3b8",
+  "--border": "#334155",
+  "--ok-status": "#4ade80",
+  "--error": "#f87171",
+  "--warning": "#fbbf24",
+  "--accent-red": "#f87171",
+  "--accent-blue": "#60a5fa",
+  "--accent-green": "#34d399",
+  "--accent-violet": "#a78bfa",
+  "--font-color-reverse": "#1e293b",
+  "--background-reverse": "#e2e8f0",
+  // Timetable entry colors for dark mode (--bu-tt- prefix to avoid collision with shadow DOM vars)
+  "--bu-tt-color-1": "rgba(52, 211, 153, 0.18)",
+  "--bu-tt-color-1-border": "rgba(52, 211, 153, 0.5)",
+  "--bu-tt-color-2": "rgba(251, 191, 36, 0.18)",
+  "--bu-tt-color-2-border": "rgba(251, 191, 36, 0.5)",
+  "--bu-tt-color-3": "rgba(96, 165, 250, 0.18)",
+  "--bu-tt-color-3-border": "rgba(96, 165, 250, 0.5)",
+  "--bu-tt-color-4": "rgba(167, 139, 250, 0.18)",
+  "--bu-tt-color-4-border": "rgba(167, 139, 250, 0.5)",
+  "--bu-tt-color-5": "rgba(163, 230, 53, 0.18)",
+  "--bu-tt-color-5-border": "rgba(163, 230, 53, 0.5)",
+  "--bu-tt-color-6": "rgba(253, 224, 71, 0.18)",
+  "--bu-tt-color-6-border": "rgba(253, 224, 71, 0.5)",
+  "--bu-tt-color-7": "rgba(148, 163, 184, 0.18)",
+  "--bu-tt-color-7-border": "rgba(148, 163, 184, 0.5)",
+  "--bu-tt-color-8": "rgba(251, 113, 133, 0.18)",
+  "--bu-tt-color-8-border": "rgba(251, 113, 133, 0.5)",
+  // timetable-day background
+  "--bu-tt-day-bg": "transparent",
+};
+
+/** Black background, white text and yellow accents; passes WCAG AAA */
+export const HIGH_CONTRAST_PALETTE: Palette = {
+  "--usos-bg": "#000000",
+  "--usos-surface": "#000000",
+  "--usos-border": "#ffffff",
+  "--usos-border-subtle": "#a3a3a3",
+  "--usos-primary": "#ffff00",
+  "--usos-primary-hover": "#ffffff",
+  "--usos-text": "#ffffff",
+  "--usos-text-muted": "#e5e5e5",
+  "--usos-header-gradient": "#000000",
+  "--usos-border-hover": "#ffff00",
+  "--usos-shadow": "none",
+  "--usos-shadow-md": "none",
+  "--font-color": "#ffffff",
+  "--primary": "#ffff00",
+  "--on-primary": "#000000",
+  "--secondary": "#00ffff",
+  "--secondary-variant": "#00e5e5",
+  "--background": "#000000",
+  "--on-background": "#ffffff",
+  "--background-secondary": "#1a1a1a",
+  "--on-background-secondary": "#ffffff",
+  "--grey": "#d4d4d4",
+  "--border": "#ffffff",
+  "--ok-status": "#00ff66",
+  "--error": "#ff6b6b",
+  "--warning": "#ffd400",
+  "--accent-red": "#ff6b6b",
+  "--accent-blue": "#66b3ff",
+  "--accent-green": "#00ff66",
+  "--accent-violet": "#d4a5ff",
+  "--font-color-reverse": "#000000",
+  "--background-reverse": "#ffffff",
+  // Solid timetable entries with bright borders instead of translucent tints
+  "--bu-tt-color-1": "#00261a",
+  "--bu-tt-color-1-border": "#00ff99",
+  "--bu-tt-color-2": "#2b2000",
+  "--bu-tt-color-2-border": "#ffd400",
+  "--bu-tt-color-3": "#001a33",
+  "--bu-tt-color-3-border": "#66b3ff",
+  "--bu-tt-color-4": "#1f0f33",
+  "--bu-tt-color-4-border": "#d4a5ff",
+  "--bu-tt-color-5": "#142600",
+  "--bu-tt-color-5-border": "#b3ff33",
+  "--bu-tt-color-6": "#262100",
+  "--bu-tt-color-6-border": "#ffff66",
+  "--bu-tt-color-7": "#1a1a1a",
+  "--bu-tt-color-7-border": "#d4d4d4",
+  "--bu-tt-color-8": "#2b0010",
+  "--bu-tt-color-8-border": "#ff6b9d",
+  "--bu-tt-day-bg": "#000000",
+};
+
+/** Every variable a built-in palette sets, in palette order */
+export const PALETTE_VARIABLES: string[] = Array.from(
+  new Set([
+    ...Object.keys(LIGHT_PALETTE),
+    ...Object.keys(DARK_PALETTE),
+    ...Object.keys(HIGH_CONTRAST_PALETTE),
+  ]),
+);
+
+export const BUILTIN_PALETTES: Record<BuiltinThemeId, Palette> = {
+  light: LIGHT_PALETTE,
+  dark: DARK_PALETTE,
+  contrast: HIGH_CONTRAST_PALETTE,
+};
+
+export const BUILTIN_THEME_LABELS: Record<BuiltinThemeId, string> = {
+  light: "Jasny",
+  dark: "Ciemny",
+  contrast: "Wysoki kontrast",
+};
+
+export function basePalette(base: BuiltinThemeId): Palette {
+  return BUILTIN_PALETTES[base];
+}
+
+/** Whether `hour` falls in the dark part of the schedule (may wrap midnight) */
+export function isDarkHour(hour: number, schedule: ThemeSchedule): boolean {
+  const { darkFrom, darkTo } = schedule;
+  if (darkFrom === darkTo) return false;
+  return darkFrom < darkTo
+    ? hour >= darkFrom && hour < darkTo
+    : hour >= darkFrom || hour < darkTo;
+}
+
+/** Built-in palette for a built-in theme or an automatic mode */
+export function resolveThemeMode(
+  id: ThemeId,
+  env: { prefersDark: boolean; hour: number; schedule: ThemeSchedule },
+): BuiltinThemeId {
+  if (id === "system") return env.prefersDark ? "dark" : "light";
+  if (id === "schedule") {
+    return isDarkHour(env.hour, env.schedule) ? "dark" : "light";
+  }
+  return isBuiltinThemeId(id) ? id : "light";
+}
+
+/** Full palette of a custom theme: its base with the overrides on top */
+export function themePalette(
+  theme: Pick<CustomTheme, "base" | "vars">,
+): Palette {
+  return { ...basePalette(theme.base), ...theme.vars };
+}
+
+export function newThemeId(): CustomTheme["id"] {
+  return `custom:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export async function loadCustomThemes(): Promise<CustomTheme[]> {
+  const res = await chrome.storage.local.get(CUSTOM_THEMES_STORAGE_KEY);
+  const raw = res[CUSTOM_THEMES_STORAGE_KEY];
+  if (raw === undefined) return [];
+  const errors: string[] = [];
+  const themes = parseCustomThemes(raw, CUSTOM_THEMES_STORAGE_KEY, errors);
+  if (errors.length > 0) {
+    console.warn("[Better USOS] invalid custom themes in storage:", errors);
+  }
+  return themes;
+}
+
+export async function saveCustomThemes(themes: CustomTheme[]): Promise<void> {
+  await chrome.storage.local.set({ [CUSTOM_THEMES_STORAGE_KEY]: themes });
+}
+
+/** Shareable JSON of a theme (without its local id) */
+export function themeToJson(theme: CustomTheme): string {
+  const { name, base, vars } = theme;
+  return JSON.stringify({ name, base, vars }, null, 2);
+}
+
+/** Read a shared theme; it gets a fresh id so it never replaces another */
+export function parseThemeJson(
+  text: string,
+  errors: string[],
+): CustomTheme | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    errors.push("Plik nie jest poprawnym JSON-em");
+    return null;
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    errors.push("motyw: oczekiwano obiektu");
+    return null;
+  }
+  return parseCustomTheme({ ...raw, id: newThemeId() }, "motyw", errors);
+}
@@ -0,0 +1,876 @@
+import React, { useEffect, useRef, useState } from "react";
+
+import { auditPalette, type WcagLevel } from "~lib/contrast";
+import { downloadText } from "~lib/export";
+import {
+  applyImport,
+  previewImport,
+  type ImportMode,
+  type ImportPreview,
+} from "~lib/import";
+import { isUsosHost, listProfiles } from "~lib/profiles";
+import {
+  BUILTIN_THEMES,
+  isBuiltinThemeId,
+  parseCustomTheme,
+  SETTINGS_STORAGE_KEY,
+  type BuiltinThemeId,
+  type CustomTheme,
+  type ThemeId,
+} from "~lib/schema";
+import {
+  basePalette,
+  BUILTIN_THEME_LABELS,
+  loadCustomThemes,
+  newThemeId,
+  PALETTE_VARIABLES,
+  parseThemeJson,
+  saveCustomThemes,
+  themePalette,
+  themeToJson,
+  type Palette,
+} from "~lib/themes";
+
+/** Editor sections, by variable prefix */
+const GROUPS: { label: string; match: (name: string) => boolean }[] = [
+  { label: "Better USOS", match: (name) => name.startsWith("--usos-") },
+  { label: "Plan zajęć", match: (name) => name.startsWith("--bu-tt-") },
+  {
+    label: "Komponenty USOSweb",
+    match: (name) =>
+      !name.startsWith("--usos-") && !name.startsWith("--bu-tt-"),
+  },
+];
+
+/** Colour picker value of a CSS colour, null unless it is a plain hex */
+function hexOf(value: string): string | null {
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  if (short) {
+    const [, r, g, b] = short;
+    return `#${r}${r}${g}${g}${b}${b}`.toLowerCase();
+  }
+  return /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : null;
+}
+
+function isUsosTab(tab: chrome.tabs.Tab): boolean {
+  try {
+    return isUsosHost(new URL(tab.url ?? "").hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Messages go to every USOSweb tab: the options page is a tab of its own,
+ * so the USOSweb one is usually not the active tab any more
+ */
+function sendToUsosTabs(msg: Record<string, unknown>): void {
+  chrome.tabs.query({ url: "https://*.edu.pl/*" }, (tabs) => {
+    for (const tab of tabs.filter(isUsosTab)) {
+      if (!tab.id) continue;
+      // A tab opened before the extension was loaded cannot answer
+      chrome.tabs.sendMessage(tab.id, msg, () => void chrome.runtime.lastError);
+    }
+  });
+}
+
+/** Ask the last used USOSweb tab which web components have no shadow styles */
+function listUnstyledComponents(
+  callback: (unstyled: { tag: string; count: number }[] | null) => void,
+): void {
+  chrome.tabs.query({ url: "https://*.edu.pl/*" }, (tabs) => {
+    const latest = tabs
+      .filter(isUsosTab)
+      .reduce<chrome.tabs.Tab | undefined>(
+        (best, tab) =>
+          !best || (tab.lastAccessed ?? 0) > (best.lastAccessed ?? 0)
+            ? tab
+            : best,
+        undefined,
+      );
+    const tabId = latest?.id;
+    if (!tabId) {
+      callback(null);
+      return;
+    }
+    chrome.tabs.sendMessage(
+      tabId,
+      { type: "LIST_UNSTYLED_COMPONENTS" },
+      (response: { unstyled?: { tag: string; count: number }[] } | undefined) =>
+        callback(
+          chrome.runtime.lastError ? null : (response?.unstyled ?? null),
+        ),
+    );
+  });
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 12px",
+  border: "1.5px solid #e2e8f0",
+  borderRadius: 8,
+  background: "#fff",
+  color: "#334155",
+  fontSize: 12.5,
+  fontWeight: 600,
+  cursor: "pointer",
+  fontFamily: "inherit",
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  borderColor: "#2563eb",
+  background: "#2563eb",
+  color: "#fff",
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderRadius: 6,
+  border: "1.5px solid #e2e8f0",
+  background: "#fff",
+  color: "#334155",
+  fontSize: 12,
+  fontFamily: "inherit",
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+  fontSize: 10.5,
+  fontWeight: 600,
+  color: "#94a3b8",
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+};
+
+/* ---- One palette variable ---- */
+function VariableRow({
+  name,
+  value,
+  overridden,
+  onChange,
+}: {
+  name: string;
+  value: string;
+  overridden: boolean;
+  onChange: (value: string | null) => void;
+}) {
+  const hex = hexOf(value);
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: "1fr 32px 200px 28px",
+        alignItems: "center",
+        gap: 8,
+        padding: "3px 0",
+      }}
+    >
+      <code
+        style={{
+          fontSize: 12,
+          color: overridden ? "#2563eb" : "#334155",
+          fontWeight: overridden ? 700 : 400,
+        }}
+      >
+        {name}
+      </code>
+      {hex ? (
+        <input
+          type="color"
+          value={hex}
+          onChange={(e) => onChange(e.target.value)}
+          style={{ width: 32, height: 24, padding: 0, border: "none" }}
+        />
+      ) : (
+        <span
+          title="Wartość z przezroczystością – edytuj w polu tekstowym"
+          style={{
+            width: 30,
+            height: 22,
+            borderRadius: 4,
+            border: "1px solid #e2e8f0",
+            background: value || "transparent",
+          }}
+        />
+      )}
+      <input
+        type="text"
+        value={value}
+        placeholder="(domyślnie USOSweb)"
+        onChange={(e) => onChange(e.target.value.trim() || null)}
+        style={inputStyle}
+      />
+      {overridden ? (
+        <button
+          type="button"
+          title="Przywróć wartość z motywu bazowego"
+          onClick={() => onChange(null)}
+          style={{ ...buttonStyle, padding: "2px 6px" }}
+        >
+          ↺
+        </button>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+}
+
+const LEVEL_COLORS: Record<WcagLevel, string> = {
+  AAA: "#15803d",
+  AA: "#2563eb",
+  fail: "#dc2626",
+};
+
+/* ---- WCAG results of a palette, failures first ---- */
+function ContrastAudit({
+  palette,
+  failuresOnly,
+}: {
+  palette: Palette;
+  failuresOnly?: boolean;
+}) {
+  const results = auditPalette(palette).sort(
+    (a, b) =>
+      Number(b.level === "fail") - Number(a.level === "fail") ||
+      a.ratio - b.ratio,
+  );
+  const failures = results.filter((r) => r.level === "fail").length;
+  const shown = failuresOnly
+    ? results.filter((r) => r.level === "fail")
+    : results;
+  return (
+    <div style={{ fontSize: 12 }}>
+      <p style={{ margin: "4px 0", color: failures ? "#dc2626" : "#64748b" }}>
+        {failures > 0
+          ? `Poniżej AA: ${failures} z ${results.length} sprawdzonych par.`
+          : `Wszystkie ${results.length} sprawdzone pary spełniają co najmniej AA.`}
+      </p>
+      {shown.map(({ pair, ratio, level }) => (
+        <div
+          key={`${pair.fg}|${pair.bg}`}
+          style={{
+            display: "grid",
+            gridTemplateColumns: "28px 1fr 64px 40px",
+            alignItems: "center",
+            gap: 8,
+            padding: "2px 0",
+          }}
+        >
+          <span
+            style={{
+              padding: "2px 0",
+              borderRadius: 4,
+              textAlign: "center",
+              fontWeight: 700,
+              background: palette[pair.bg],
+              color: palette[pair.fg],
+            }}
+          >
+            Aa
+          </span>
+          <code>
+            {`${pair.fg} na ${pair.bg}${pair.large ? " (duży tekst)" : ""}`}
+          </code>
+          <span style={{ fontVariantNumeric: "tabular-nums" }}>
+            {`${ratio.toFixed(2)}:1`}
+          </span>
+          <span style={{ fontWeight: 700, color: LEVEL_COLORS[level] }}>
+            {level === "fail" ? "✕" : level}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ---- Import of an exported JSON file into a university profile ---- */
+function DataImport() {
+  /** Universities with stored data or an open USOSweb tab */
+  const [hosts, setHosts] = useState<string[]>([]);
+  const [host, setHost] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [status, setStatus] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadHosts = () => {
+    chrome.tabs.query({ url: "https://*.edu.pl/*" }, (tabs) => {
+      const open = tabs
+        .filter(isUsosTab)
+        .map((tab) => new URL(tab.url ?? "").hostname);
+      listProfiles()
+        .then((stored) =>
+          setHosts(Array.from(new Set([...stored, ...open])).sort()),
+        )
+        .catch((err) =>
+          console.warn("[Better USOS] profiles load error:", err),
+        );
+    });
+  };
+
+  useEffect(loadHosts, []);
+
+  const target = host ?? hosts[0] ?? null;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !target) return;
+    setStatus("");
+    file
+      .text()
+      .then((text) => previewImport(text, target))
+      .then(setPreview)
+      .catch(() => setStatus("Nie udało się odczytać pliku."));
+  };
+
+  const handleApply = (mode: ImportMode) => {
+    const bundle = preview?.bundle;
+    if (!bundle || !target) return;
+    applyImport(bundle, mode, target)
+      .then(() => {
+        setPreview(null);
+        loadHosts();
+        setStatus(mode === "merge" ? "Dane scalone." : "Dane zastąpione.");
+      })
+      .catch(() => setStatus("Import nie powiódł się."));
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 20,
+        paddingTop: 14,
+        borderTop: "1px solid #f1f5f9",
+      }}
+    >
+      <span style={sectionLabelStyle}>Import danych</span>
+      <p style={{ margin: "4px 0 8px", fontSize: 12, color: "#64748b" }}>
+        Wczytuje plik JSON wyeksportowany w menu rozszerzenia lub w panelu
+        statystyk. Otwarte karty wybranej uczelni odświeżą się po imporcie.
+      </p>
+      {target ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <select
+            value={target}
+            onChange={(e) => {
+              setHost(e.target.value);
+              setPreview(null);
+            }}
+            style={inputStyle}
+          >
+            {hosts.map((h) => (
+              <option key={h} value={h}>
+                {h.replace(/^usosweb\./, "")}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            style={buttonStyle}
+          >
+            Wybierz plik
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFile}
+            style={{ display: "none" }}
+          />
+        </div>
+      ) : (
+        <p style={{ margin: 0, fontSize: 12, color: "#94a3b8" }}>
+          Brak zapisanych danych. Otwórz stronę USOSweb, aby wybrać uczelnię.
+        </p>
+      )}
+
+      {preview && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+            marginTop: 8,
+            padding: "8px 10px",
+            borderRadius: 8,
+            background: "#f8fafc",
+            border: "1px solid #e2e8f0",
+            fontSize: 12,
+            lineHeight: 1.45,
+          }}
+        >
+          {!preview.bundle ? (
+            <span style={{ color: "#dc2626" }}>{preview.errors.join(" ")}</span>
+          ) : (
+            <>
+              {preview.errors.length > 0 && (
+                <div style={{ color: "#b45309" }}>
+                  Pominięte niepoprawne dane ({preview.errors.length}):
+                  <ul style={{ margin: "2px 0 0", paddingLeft: 16 }}>
+                    {preview.errors.slice(0, 5).map((err) => (
+                      <li key={err}>{err}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {preview.conflicts.length > 0 ? (
+                <div style={{ color: "#334155" }}>
+                  Konflikty z zapisanymi danymi:
+                  <ul style={{ margin: "2px 0 0", paddingLeft: 16 }}>
+                    {preview.conflicts.map((c) => (
+                      <li key={c}>{c}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <span style={{ color: "#334155" }}>
+                  Brak konfliktów z zapisanymi danymi.
+                </span>
+              )}
+              <div style={{ display: "flex", gap: 6 }}>
+                <button
+                  type="button"
+                  onClick={() => handleApply("merge")}
+                  style={primaryButtonStyle}
+                >
+                  Scal
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleApply("replace")}
+                  style={buttonStyle}
+                >
+                  Zastąp
+                </button>
+              </div>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setPreview(null)}
+            style={{ ...buttonStyle, alignSelf: "flex-end" }}
+          >
+            Anuluj
+          </button>
+        </div>
+      )}
+      {status && (
+        <p style={{ margin: "8px 0 0", fontSize: 12, color: "#64748b" }}>
+          {status}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/* ---- Options page: palette editor ---- */
+function Options() {
+  const [themes, setThemes] = useState<CustomTheme[]>([]);
+  const [draft, setDraft] = useState<CustomTheme | null>(null);
+  const [activeThemeId, setActiveThemeId] = useState<ThemeId | null>(null);
+  const [newBase, setNewBase] = useState<BuiltinThemeId>("light");
+  const [status, setStatus] = useState("");
+  const [unstyled, setUnstyled] = useState<
+    { tag: string; count: number }[] | null | undefined
+  >(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadCustomThemes()
+      .then((list) => {
+        setThemes(list);
+        if (list.length > 0) setDraft(list[0]);
+      })
+      .catch((err) => console.warn("[Better USOS] themes load error:", err));
+    chrome.storage?.sync?.get(SETTINGS_STORAGE_KEY, (res) => {
+      const raw = res?.[SETTINGS_STORAGE_KEY] as { themeId?: ThemeId };
+      setActiveThemeId(raw?.themeId ?? null);
+    });
+    // Leaving the page ends the live preview
+    const endPreview = () => sendToUsosTabs({ type: "PREVIEW_THEME" });
+    window.addEventListener("beforeunload", endPreview);
+    return () => window.removeEventListener("beforeunload", endPreview);
+  }, []);
+
+  // Live preview of every edit on the open USOSweb tab
+  useEffect(() => {
+    if (draft) sendToUsosTabs({ type: "PREVIEW_THEME", theme: draft });
+  }, [draft]);
+
+  const saved = draft ? themes.find((t) => t.id === draft.id) : undefined;
+  const dirty = !!draft && JSON.stringify(saved) !== JSON.stringify(draft);
+
+  /* ---- handlers ---- */
+  const setVar = (name: string, value: string | null) => {
+    if (!draft) return;
+    const vars = { ...draft.vars };
+    if (value === null) delete vars[name];
+    else vars[name] = value;
+    setDraft({ ...draft, vars });
+  };
+
+  const handleNew = () => {
+    setStatus("");
+    setDraft({ id: newThemeId(), name: "Nowy motyw", base: newBase, vars: {} });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const errors: string[] = [];
+    const theme = parseCustomTheme(draft, "motyw", errors);
+    if (!theme || errors.length > 0) {
+      setStatus(errors.join("; "));
+      return;
+    }
+    const next = saved
+      ? themes.map((t) => (t.id === theme.id ? theme : t))
+      : [...themes, theme];
+    saveCustomThemes(next)
+      .then(() => {
+        setThemes(next);
+        setDraft(theme);
+        setStatus("Zapisano.");
+        // Reload the applied theme if it is the one just edited
+        if (theme.id === activeThemeId) {
+          sendToUsosTabs({ type: "SET_THEME", themeId: theme.id });
+        }
+      })
+      .catch((err) => setStatus(`Błąd zapisu: ${String(err)}`));
+  };
+
+  /** Store the theme in the global settings and apply it */
+  const setActiveTheme = (themeId: ThemeId) => {
+    chrome.storage.sync.get(SETTINGS_STORAGE_KEY, (res) => {
+      const current = (res?.[SETTINGS_STORAGE_KEY] ?? {}) as Record<
+        string,
+        unknown
+      >;
+      chrome.storage.sync.set({
+        [SETTINGS_STORAGE_KEY]: { ...current, themeId },
+      });
+      setActiveThemeId(themeId);
+      sendToUsosTabs({ type: "SET_THEME", themeId });
+    });
+  };
+
+  const handleUse = () => {
+    if (!saved) return;
+    setActiveTheme(saved.id);
+    setStatus("Motyw ustawiony.");
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (saved && !window.confirm(`Usunąć motyw „${draft.name}”?`)) return;
+    const next = themes.filter((t) => t.id !== draft.id);
+    saveCustomThemes(next)
+      .then(() => {
+        setThemes(next);
+        setDraft(next[0] ?? null);
+        sendToUsosTabs({ type: "PREVIEW_THEME" });
+        // A deleted active theme is replaced by its base palette
+        if (draft.id === activeThemeId) setActiveTheme(draft.base);
+      })
+      .catch((err) => setStatus(`Błąd zapisu: ${String(err)}`));
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const slug = draft.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadText(
+      `better-usos-motyw-${slug || "wlasny"}.json`,
+      themeToJson(draft),
+      "application/json",
+    );
+  };
+
+  const handleCopy = () => {
+    if (!draft) return;
+    navigator.clipboard
+      .writeText(themeToJson(draft))
+      .then(() => setStatus("Skopiowano JSON motywu."))
+      .catch(() => setStatus("Nie udało się skopiować."));
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then((text) => {
+      const errors: string[] = [];
+      const theme = parseThemeJson(text, errors);
+      if (!theme) {
+        setStatus(errors.join("; "));
+        return;
+      }
+      setDraft(theme);
+      setStatus(
+        errors.length > 0
+          ? `Wczytano z pominięciem: ${errors.join("; ")}`
+          : "Wczytano – zapisz, aby zachować.",
+      );
+    });
+  };
+
+  const base = draft ? basePalette(draft.base) : {};
+  const listed = saved || !draft ? themes : [...themes, draft];
+
+  return (
+    <div
+      style={{
+        maxWidth: 760,
+        margin: "0 auto",
+        padding: "20px 24px 32px",
+        fontFamily: '"Segoe UI", system-ui, -apple-system, sans-serif',
+        fontSize: 13,
+        color: "#1e293b",
+        background: "#fff",
+      }}
+    >
+      <h1 style={{ fontSize: 18, fontWeight: 700, margin: "0 0 4px" }}>
+        Better USOS – własne motywy
+      </h1>
+      <p style={{ margin: "0 0 16px", color: "#64748b", fontSize: 12.5 }}>
+        Zmiany są od razu widoczne na otwartej karcie USOSweb. Zapisz motyw, aby
+        go zachować, i wybierz go w menu rozszerzenia.
+      </p>
+
+      {/* ---- Theme list ---- */}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 6,
+          marginBottom: 16,
+        }}
+      >
+        {listed.map((theme) => (
+          <button
+            type="button"
+            key={theme.id}
+            onClick={() => {
+              setStatus("");
+              setDraft(themes.find((t) => t.id === theme.id) ?? theme);
+            }}
+            style={
+              theme.id === draft?.id
+                ? { ...buttonStyle, borderColor: "#2563eb", color: "#2563eb" }
+                : buttonStyle
+            }
+          >
+            {theme.name}
+            {theme.id === activeThemeId ? " ✓" : ""}
+          </button>
+        ))}
+        <span style={{ flex: 1 }} />
+        <select
+          value={newBase}
+          onChange={(e) =>
+            setNewBase(
+              isBuiltinThemeId(e.target.value) ? e.target.value : "light",
+            )
+          }
+          style={inputStyle}
+        >
+          {BUILTIN_THEMES.map((id) => (
+            <option key={id} value={id}>
+              {`na bazie: ${BUILTIN_THEME_LABELS[id]}`}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleNew} style={buttonStyle}>
+          Nowy motyw
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          style={buttonStyle}
+        >
+          Importuj JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          style={{ display: "none" }}
+        />
+      </div>
+
+      {status && (
+        <p style={{ margin: "0 0 12px", fontSize: 12, color: "#64748b" }}>
+          {status}
+        </p>
+      )}
+
+      {draft ? (
+        <>
+          {/* ---- Theme header ---- */}
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              alignItems: "center",
+              gap: 8,
+              marginBottom: 12,
+            }}
+          >
+            <input
+              type="text"
+              value={draft.name}
+              maxLength={60}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              style={{ ...inputStyle, fontSize: 14, fontWeight: 600 }}
+            />
+            <select
+              value={draft.base}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  base: isBuiltinThemeId(e.target.value)
+                    ? e.target.value
+                    : "light",
+                })
+              }
+              style={inputStyle}
+            >
+              {BUILTIN_THEMES.map((id) => (
+                <option key={id} value={id}>
+                  {`Baza: ${BUILTIN_THEME_LABELS[id]}`}
+                </option>
+              ))}
+            </select>
+            <span style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!dirty}
+              style={{ ...primaryButtonStyle, opacity: dirty ? 1 : 0.5 }}
+            >
+              Zapisz
+            </button>
+            <button
+              type="button"
+              onClick={handleUse}
+              disabled={!saved || dirty}
+              style={{ ...buttonStyle, opacity: saved && !dirty ? 1 : 0.5 }}
+            >
+              Używaj
+            </button>
+            <button type="button" onClick={handleExport} style={buttonStyle}>
+              Pobierz JSON
+            </button>
+            <button type="button" onClick={handleCopy} style={buttonStyle}>
+              Kopiuj JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => sendToUsosTabs({ type: "PREVIEW_THEME" })}
+              style={buttonStyle}
+            >
+              Zakończ podgląd
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              style={{ ...buttonStyle, color: "#dc2626" }}
+            >
+              {saved ? "Usuń" : "Odrzuć"}
+            </button>
+          </div>
+
+          {/* ---- Variables ---- */}
+          {GROUPS.map((group) => (
+            <div key={group.label} style={{ marginBottom: 14 }}>
+              <span style={sectionLabelStyle}>{group.label}</span>
+              {PALETTE_VARIABLES.filter(group.match).map((name) => (
+                <VariableRow
+                  key={name}
+                  name={name}
+                  value={draft.vars[name] ?? base[name] ?? ""}
+                  overridden={name in draft.vars}
+                  onChange={(value) => setVar(name, value)}
+                />
+              ))}
+            </div>
+          ))}
+
+          {/* ---- Contrast of the edited theme ---- */}
+          <div style={{ marginBottom: 14 }}>
+            <span style={sectionLabelStyle}>Kontrast (WCAG)</span>
+            <ContrastAudit palette={themePalette(draft)} />
+          </div>
+        </>
+      ) : (
+        <p style={{ color: "#94a3b8" }}>
+          Nie masz jeszcze własnych motywów. Utwórz nowy albo zaimportuj plik
+          JSON.
+        </p>
+      )}
+
+      {/* ---- Contrast of the built-in palettes ---- */}
+      <div
+        style={{
+          marginTop: 20,
+          paddingTop: 14,
+          borderTop: "1px solid #f1f5f9",
+        }}
+      >
+        <span style={sectionLabelStyle}>Kontrast wbudowanych palet</span>
+        {BUILTIN_THEMES.map((id) => (
+          <div key={id} style={{ marginTop: 8 }}>
+            <strong style={{ fontSize: 12.5 }}>
+              {BUILTIN_THEME_LABELS[id]}
+            </strong>
+            <ContrastAudit palette={basePalette(id)} failuresOnly />
+          </div>
+        ))}
+      </div>
+
+      {/* ---- Web components the shadow styles miss ---- */}
+      <div
+        style={{
+          marginTop: 20,
+          paddingTop: 14,
+          borderTop: "1px solid #f1f5f9",
+        }}
+      >
+        <span style={sectionLabelStyle}>Komponenty bez stylów</span>
+        <p style={{ margin: "4px 0 8px", fontSize: 12, color: "#64748b" }}>
+          Komponenty USOSweb na otwartej karcie, których Better USOS nie
+          dostosowuje do motywu.
+        </p>
+        <button
+          type="button"
+          onClick={() => listUnstyledComponents(setUnstyled)}
+          style={buttonStyle}
+        >
+          Sprawdź kartę USOS
+        </button>
+        {unstyled === null && (
+          <p style={{ margin: "8px 0 0", fontSize: 12, color: "#dc2626" }}>
+            Otwórz stronę USOSweb w przeglądarce.
+          </p>
+        )}
+        {unstyled && (
+          <div style={{ marginTop: 8, fontSize: 12 }}>
+            {unstyled.length === 0
+              ? "Wszystkie komponenty mają style."
+              : unstyled.map(({ tag, count }) => (
+                  <div key={tag}>
+                    <code>{`<${tag}>`}</code>
+                    {` × ${count}`}
+                  </div>
+                ))}
+          </div>
+        )}
+      </div>
+
+      <DataImport />
+    </div>
+  );
+}
+
+export default Options;
@@ -1,11 +1,45 @@
 import React, { useEffect, useState } from "react";
 
-type PaletteId = "light" | "dark";
+import { exportData } from "~lib/export";
+import {
+  isUsosHost,
+  listProfiles,
+  parseSubjectKey,
+  profileKey,
+} from "~lib/profiles";
+import {
+  CHANGES_KEY_PREFIX,
+  DEFAULT_HISTOGRAM_BINS,
+  DEFAULT_REVEAL_MODE,
+  DEFAULT_THEME_SCHEDULE,
+  HISTOGRAM_BINS,
+  isRevealMode,
+  isThemeId,
+  NOTIFICATION_SETTINGS_KEY,
+  parseChangeLog,
+  parseNotificationSettings,
+  parseRevealOverrides,
+  parseThemeSchedule,
+  POLL_INTERVALS,
+  REVEAL_MODE_LABELS,
+  REVEAL_MODES,
+  type CustomTheme,
+  type NotificationSettings,
+  type RevealMode,
+  type ThemeId,
+  type ThemeSchedule,
+} from "~lib/schema";
+import { loadCustomThemes } from "~lib/themes";
 
 interface PopupSettings {
   enabled: boolean;
   showBanner: boolean;
-  themeId: PaletteId;
+  themeId: ThemeId;
+  themeSchedule: ThemeSchedule;
+  histogramBins: number;
+  revealMode: RevealMode;
+  revealOverrides: Record<string, RevealMode>;
+  seriousMode: boolean;
 }
 
 function getDefaultSettings(): PopupSettings {
@@ -13,6 +47,11 @@ function getDefaultSettings(): PopupSettings {
     enabled: true,
     showBanner: true,
     themeId: "light",
+    themeSchedule: DEFAULT_THEME_SCHEDULE,
+    histogramBins: DEFAULT_HISTOGRAM_BINS,
+    revealMode: DEFAULT_REVEAL_MODE,
+    revealOverrides: {},
+    seriousMode: false,
   };
 }
 
@@ -53,6 +92,52 @@ const IconMoon = () => (
     <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
   </svg>
 );
+const IconContrast = () => (
+  <svg
+    width="15"
+    height="15"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <circle cx="12" cy="12" r="10" />
+    <path d="M12 2a10 10 0 0 0 0 20z" fill="currentColor" />
+  </svg>
+);
+const IconMonitor = () => (
+  <svg
+    width="15"
+    height="15"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect x="2" y="3" width="20" height="14" rx="2" ry="2" />
+    <line x1="8" y1="21" x2="16" y2="21" />
+    <line x1="12" y1="17" x2="12" y2="21" />
+  </svg>
+);
+const IconClock = () => (
+  <svg
+    width="15"
+    height="15"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <circle cx="12" cy="12" r="10" />
+    <polyline points="12 6 12 12 16 14" />
+  </svg>
+);
 const IconImage = () => (
   <svg
     width="15"
@@ -123,16 +208,21 @@ function ThemePills({
   onChange,
   disabled,
 }: {
-  value: PaletteId;
-  onChange: (v: PaletteId) => void;
+  value: ThemeId;
+  onChange: (v: ThemeId) => void;
   disabled?: boolean;
 }) {
-  const options: { id: PaletteId; label: string; icon: React.ReactNode }[] = [
+  const options: { id: ThemeId; label: string; icon: React.ReactNode }[] = [
     { id: "light", label: "Jasny", icon: <IconSun /> },
     { id: "dark", label: "Ciemny", icon: <IconMoon /> },
+    { id: "contrast", label: "Kontrast", icon: <IconContrast /> },
+    { id: "system", label: "System", icon: <IconMonitor /> },
+    { id: "schedule", label: "Wg godzin", icon: <IconClock /> },
   ];
   return (
-    <div style={{ display: "flex", gap: 6 }}>
+    <div
+      style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 6 }}
+    >
       {options.map((o) => {
         const active = value === o.id;
         return (
@@ -169,11 +259,61 @@ function ThemePills({
   );
 }
 
+const selectStyle: React.CSSProperties = {
+  padding: "4px 6px",
+  borderRadius: 6,
+  border: "1.5px solid #e2e8f0",
+  background: "#fff",
+  color: "#334155",
+  fontSize: 12,
+  fontFamily: "inherit",
+};
+
+/* ---- Label + control row ---- */
+function SettingRow({
+  label,
+  disabled,
+  children,
+}: {
+  label: string;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: 10,
+        fontSize: 12.5,
+        fontWeight: 500,
+        color: disabled ? "#94a3b8" : "#334155",
+      }}
+    >
+      {label}
+      {children}
+    </div>
+  );
+}
+
 /* ---- Main popup ---- */
 function Popup() {
   const [editActive, setEditActive] = useState<boolean | null>(null);
   const [hasDashboard, setHasDashboard] = useState(false);
   const [settings, setSettings] = useState<PopupSettings>(getDefaultSettings);
+  const [notify, setNotify] = useState<NotificationSettings>(() =>
+    parseNotificationSettings(undefined),
+  );
+  /** Subjects by `<wez_id>@<host>`, the id muted subjects are stored by */
+  const [subjects, setSubjects] = useState<{ id: string; subject: string }[]>(
+    [],
+  );
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([]);
+  /** Universities with stored data, and the one open in the active tab */
+  const [profiles, setProfiles] = useState<string[]>([]);
+  const [tabHost, setTabHost] = useState<string | null>(null);
+  const [profile, setProfile] = useState<string | null>(null);
 
   // Load dashboard edit state
   useEffect(() => {
@@ -213,20 +353,86 @@ function Popup() {
           typeof raw.showBanner === "boolean"
             ? raw.showBanner
             : prev.showBanner,
-        themeId:
-          raw.themeId === "light" || raw.themeId === "dark"
-            ? raw.themeId
-            : prev.themeId,
+        themeId: isThemeId(raw.themeId) ? raw.themeId : prev.themeId,
+        themeSchedule: parseThemeSchedule(raw.themeSchedule),
+        histogramBins:
+          typeof raw.histogramBins === "number" &&
+          (HISTOGRAM_BINS as readonly number[]).includes(raw.histogramBins)
+            ? raw.histogramBins
+            : prev.histogramBins,
+        revealMode: isRevealMode(raw.revealMode)
+          ? raw.revealMode
+          : prev.revealMode,
+        revealOverrides: parseRevealOverrides(raw.revealOverrides),
+        seriousMode:
+          typeof raw.seriousMode === "boolean"
+            ? raw.seriousMode
+            : prev.seriousMode,
       }));
     });
   }, []);
 
+  // Load user-defined themes
+  useEffect(() => {
+    loadCustomThemes()
+      .then(setCustomThemes)
+      .catch((err) => console.warn("[Better USOS] themes load error:", err));
+  }, []);
+
+  // Load the university profiles
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      try {
+        const host = new URL(tabs[0]?.url ?? "").hostname;
+        if (isUsosHost(host)) setTabHost(host);
+      } catch {
+        /* not a web page */
+      }
+    });
+    listProfiles()
+      .then(setProfiles)
+      .catch((err) => console.warn("[Better USOS] profiles load error:", err));
+  }, []);
+
+  // Load notification settings and the subjects known from change logs
+  useEffect(() => {
+    chrome.storage?.sync?.get(NOTIFICATION_SETTINGS_KEY, (res) => {
+      setNotify(parseNotificationSettings(res?.[NOTIFICATION_SETTINGS_KEY]));
+    });
+    chrome.storage.local.get(null, (all) => {
+      const list: { id: string; subject: string }[] = [];
+      for (const [key, value] of Object.entries(all ?? {})) {
+        const parsed = parseSubjectKey(key, CHANGES_KEY_PREFIX);
+        if (!parsed) continue;
+        const log = parseChangeLog(value, key, []);
+        if (!log) continue;
+        list.push({
+          id: profileKey(parsed.wezId, parsed.host),
+          subject: log.subject || "Nieznany przedmiot",
+        });
+      }
+      list.sort((a, b) => a.subject.localeCompare(b.subject, "pl"));
+      setSubjects(list);
+    });
+  }, []);
+
   /* ---- helpers ---- */
   const persist = (next: PopupSettings) => {
     setSettings(next);
     chrome.storage?.sync?.set({ betterUsosSettings: next });
   };
 
+  const persistNotify = (patch: Partial<NotificationSettings>) => {
+    const next = { ...notify, ...patch };
+    setNotify(next);
+    chrome.storage?.sync?.set({ [NOTIFICATION_SETTINGS_KEY]: next });
+  };
+
+  const toggleMuted = (subjectId: string, muted: boolean) => {
+    const rest = notify.muted.filter((id) => id !== subjectId);
+    persistNotify({ muted: muted ? [...rest, subjectId] : rest });
+  };
+
   const withTab = (cb: (id: number) => void) => {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       if (tabs[0]?.id) cb(tabs[0].id);
@@ -249,12 +455,44 @@ function Popup() {
     sendToTab({ type: "SET_BANNER_VISIBILITY", show: showBanner });
   };
 
-  const handleTheme = (themeId: PaletteId) => {
+  const handleTheme = (themeId: ThemeId) => {
     const next = { ...settings, themeId };
     persist(next);
     sendToTab({ type: "SET_THEME", themeId });
   };
 
+  const handleThemeSchedule = (patch: Partial<ThemeSchedule>) => {
+    const themeSchedule = { ...settings.themeSchedule, ...patch };
+    persist({ ...settings, themeSchedule });
+    sendToTab({
+      type: "SET_THEME",
+      themeId: settings.themeId,
+      schedule: themeSchedule,
+    });
+  };
+
+  const handleHistogramBins = (histogramBins: number) => {
+    const next = { ...settings, histogramBins };
+    persist(next);
+    sendToTab({ type: "SET_HISTOGRAM_BINS", bins: histogramBins });
+  };
+
+  const handleRevealMode = (revealMode: RevealMode) => {
+    const next = { ...settings, revealMode };
+    persist(next);
+    sendToTab({ type: "SET_REVEAL_MODE", mode: revealMode });
+  };
+
+  const handleSeriousMode = (seriousMode: boolean) => {
+    const next = { ...settings, seriousMode };
+    persist(next);
+    sendToTab({ type: "SET_SERIOUS_MODE" });
+  };
+
+  const handleClearOverrides = () => {
+    persist({ ...settings, revealOverrides: {} });
+  };
+
   const handleToggleEdit = () => {
     withTab((tabId) => {
       chrome.tabs.sendMessage(
@@ -267,7 +505,22 @@ function Popup() {
     });
   };
 
+  const handleExport = (format: "json" | "csv") => {
+    if (!activeProfile) return;
+    exportData(format, activeProfile).catch((err) =>
+      console.warn("[Better USOS] export error:", err),
+    );
+  };
+
+  // Data actions target the chosen university, by default the open one
+  const activeProfile = profile ?? tabHost ?? profiles[0] ?? null;
+  const profileOptions =
+    tabHost && !profiles.includes(tabHost) ? [...profiles, tabHost] : profiles;
+
   const off = !settings.enabled;
+  const notifyOff = off || !notify.enabled;
+  const hours = Array.from({ length: 24 }, (_, h) => h);
+  const overrideCount = Object.keys(settings.revealOverrides).length;
 
   return (
     <div
@@ -343,6 +596,90 @@ function Popup() {
             />
           </div>
 
+          {/* Dark hours of the scheduled mode */}
+          {settings.themeId === "schedule" && (
+            <SettingRow label="Ciemny motyw" disabled={off}>
+              <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                <select
+                  value={settings.themeSchedule.darkFrom}
+                  disabled={off}
+                  onChange={(e) =>
+                    handleThemeSchedule({ darkFrom: Number(e.target.value) })
+                  }
+                  style={selectStyle}
+                >
+                  {hours.map((h) => (
+                    <option key={h} value={h}>
+                      {`${h}:00`}
+                    </option>
+                  ))}
+                </select>
+                –
+                <select
+                  value={settings.themeSchedule.darkTo}
+                  disabled={off}
+                  onChange={(e) =>
+                    handleThemeSchedule({ darkTo: Number(e.target.value) })
+                  }
+                  style={selectStyle}
+                >
+                  {hours.map((h) => (
+                    <option key={h} value={h}>
+                      {`${h}:00`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </SettingRow>
+          )}
+
+          {/* Custom themes */}
+          <SettingRow label="Własny motyw" disabled={off}>
+            <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              {customThemes.length > 0 && (
+                <select
+                  value={
+                    settings.themeId.startsWith("custom:")
+                      ? settings.themeId
+                      : ""
+                  }
+                  disabled={off}
+                  onChange={(e) => {
+                    if (isThemeId(e.target.value)) {
+                      handleTheme(e.target.value);
+                    }
+                  }}
+                  style={selectStyle}
+                >
+                  <option value="" disabled>
+                    —
+                  </option>
+                  {customThemes.map((theme) => (
+                    <option key={theme.id} value={theme.id}>
+                      {theme.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                onClick={() => chrome.runtime.openOptionsPage()}
+                style={{
+                  padding: "3px 8px",
+                  border: "1.5px solid #e2e8f0",
+                  borderRadius: 6,
+                  background: "#fff",
+                  color: "#64748b",
+                  fontSize: 11.5,
+                  cursor: "pointer",
+                  fontFamily: "inherit",
+                }}
+              >
+                {customThemes.length > 0 ? "Edytuj" : "Utwórz"}
+              </button>
+            </div>
+          </SettingRow>
+
           {/* Banner */}
           <div
             style={{
@@ -386,6 +723,82 @@ function Popup() {
               disabled={off}
             />
           </div>
+
+          {/* Serious mode */}
+          <SettingRow label="Tryb poważny (bez monet i efektów)" disabled={off}>
+            <Toggle
+              checked={settings.seriousMode}
+              onChange={handleSeriousMode}
+              disabled={off}
+            />
+          </SettingRow>
+
+          {/* Histogram bins */}
+          <SettingRow label="Przedziały rozkładu ocen" disabled={off}>
+            <select
+              value={settings.histogramBins}
+              disabled={off}
+              onChange={(e) => handleHistogramBins(Number(e.target.value))}
+              style={selectStyle}
+            >
+              {HISTOGRAM_BINS.map((bins) => (
+                <option key={bins} value={bins}>
+                  {`${bins} × ${100 / bins}%`}
+                </option>
+              ))}
+            </select>
+          </SettingRow>
+
+          {/* Reveal mode */}
+          <SettingRow label="Odsłanianie ocen" disabled={off}>
+            <select
+              value={settings.revealMode}
+              disabled={off}
+              onChange={(e) => {
+                if (isRevealMode(e.target.value)) {
+                  handleRevealMode(e.target.value);
+                }
+              }}
+              style={selectStyle}
+            >
+              {REVEAL_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {REVEAL_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </SettingRow>
+          {overrideCount > 0 && (
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: 10,
+                fontSize: 11.5,
+                color: "#94a3b8",
+              }}
+            >
+              {`Własny tryb w przedmiotach: ${overrideCount}`}
+              <button
+                type="button"
+                onClick={handleClearOverrides}
+                disabled={off}
+                style={{
+                  padding: "3px 8px",
+                  border: "1.5px solid #e2e8f0",
+                  borderRadius: 6,
+                  background: "#fff",
+                  color: "#64748b",
+                  fontSize: 11.5,
+                  cursor: off ? "not-allowed" : "pointer",
+                  fontFamily: "inherit",
+                }}
+              >
+                Przywróć domyślny
+              </button>
+            </div>
+          )}
         </div>
 
         <div style={{ height: 1, background: "#f1f5f9", margin: "2px 0" }} />
@@ -454,6 +867,226 @@ function Popup() {
             </p>
           )}
         </div>
+
+        <div style={{ height: 1, background: "#f1f5f9", margin: "2px 0" }} />
+
+        {/* ---- Notifications section ---- */}
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          <span
+            style={{
+              fontSize: 10.5,
+              fontWeight: 600,
+              color: "#94a3b8",
+              textTransform: "uppercase",
+              letterSpacing: "0.05em",
+            }}
+          >
+            Powiadomienia
+          </span>
+          <SettingRow label="Sprawdzaj nowe oceny" disabled={off}>
+            <Toggle
+              checked={notify.enabled}
+              onChange={(enabled) => persistNotify({ enabled })}
+              disabled={off}
+            />
+          </SettingRow>
+          <SettingRow label="Co ile" disabled={notifyOff}>
+            <select
+              value={notify.intervalMinutes}
+              disabled={notifyOff}
+              onChange={(e) =>
+                persistNotify({ intervalMinutes: Number(e.target.value) })
+              }
+              style={selectStyle}
+            >
+              {POLL_INTERVALS.map((min) => (
+                <option key={min} value={min}>
+                  {min < 60 ? `${min} min` : `${min / 60} h`}
+                </option>
+              ))}
+            </select>
+          </SettingRow>
+          <SettingRow label="Pokazuj wartości ocen" disabled={notifyOff}>
+            <Toggle
+              checked={notify.showValues}
+              onChange={(showValues) => persistNotify({ showValues })}
+              disabled={notifyOff}
+            />
+          </SettingRow>
+          <SettingRow label="Godziny ciszy" disabled={notifyOff}>
+            <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              {notify.quietHours && (
+                <>
+                  <select
+                    value={notify.quietFrom}
+                    disabled={notifyOff}
+                    onChange={(e) =>
+                      persistNotify({ quietFrom: Number(e.target.value) })
+                    }
+                    style={selectStyle}
+                  >
+                    {hours.map((h) => (
+                      <option key={h} value={h}>
+                        {`${h}:00`}
+                      </option>
+                    ))}
+                  </select>
+                  –
+                  <select
+                    value={notify.quietTo}
+                    disabled={notifyOff}
+                    onChange={(e) =>
+                      persistNotify({ quietTo: Number(e.target.value) })
+                    }
+                    style={selectStyle}
+                  >
+                    {hours.map((h) => (
+                      <option key={h} value={h}>
+                        {`${h}:00`}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <Toggle
+                checked={notify.quietHours}
+                onChange={(quietHours) => persistNotify({ quietHours })}
+                disabled={notifyOff}
+              />
+            </div>
+          </SettingRow>
+          {subjects.length > 0 ? (
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                gap: 4,
+                maxHeight: 120,
+                overflowY: "auto",
+                fontSize: 12,
+                color: notifyOff ? "#94a3b8" : "#334155",
+              }}
+            >
+              {subjects.map(({ id, subject }) => (
+                <label
+                  key={id}
+                  style={{ display: "flex", alignItems: "center", gap: 6 }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!notify.muted.includes(id)}
+                    disabled={notifyOff}
+                    onChange={(e) => toggleMuted(id, !e.target.checked)}
+                  />
+                  {subject}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p
+              style={{
+                fontSize: 11.5,
+                color: "#94a3b8",
+                lineHeight: 1.45,
+                margin: 0,
+              }}
+            >
+              Sprawdzane są przedmioty, których strony ocen były już otwarte.
+            </p>
+          )}
+        </div>
+
+        <div style={{ height: 1, background: "#f1f5f9", margin: "2px 0" }} />
+
+        {/* ---- Data section ---- */}
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          <span
+            style={{
+              fontSize: 10.5,
+              fontWeight: 600,
+              color: "#94a3b8",
+              textTransform: "uppercase",
+              letterSpacing: "0.05em",
+            }}
+          >
+            Dane
+          </span>
+          <p
+            style={{
+              fontSize: 11.5,
+              color: "#94a3b8",
+              lineHeight: 1.45,
+              margin: 0,
+            }}
+          >
+            Kopia statystyk i odsłoniętych ocen (JSON) lub lista ocen (CSV)
+            wybranej uczelni. Wyeksportowany plik JSON wczytasz na stronie
+            opcji.
+          </p>
+          <SettingRow label="Uczelnia" disabled={!activeProfile}>
+            {activeProfile ? (
+              <select
+                value={activeProfile}
+                onChange={(e) => setProfile(e.target.value)}
+                style={selectStyle}
+              >
+                {profileOptions.map((host) => (
+                  <option key={host} value={host}>
+                    {`${host.replace(/^usosweb\./, "")}${
+                      host === tabHost ? " (ta karta)" : ""
+                    }${profiles.includes(host) ? "" : " – brak danych"}`}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span style={{ fontSize: 11.5 }}>brak zapisanych danych</span>
+            )}
+          </SettingRow>
+          <div style={{ display: "flex", gap: 6 }}>
+            {(["json", "csv"] as const).map((format) => (
+              <button
+                type="button"
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!activeProfile}
+                style={{
+                  flex: 1,
+                  padding: "7px 0",
+                  borderRadius: 8,
+                  border: "1.5px solid #e2e8f0",
+                  background: "transparent",
+                  color: "#334155",
+                  fontSize: 12.5,
+                  fontWeight: 600,
+                  cursor: "pointer",
+                  transition: "all 0.15s",
+                  fontFamily: "inherit",
+                }}
+              >
+                Eksport {format.toUpperCase()}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => chrome.runtime.openOptionsPage()}
+              style={{
+                flex: 1,
+                padding: "7px 0",
+                borderRadius: 8,
+                border: "1.5px solid #e2e8f0",
+                background: "transparent",
+                color: "#334155",
+                fontSize: 12.5,
+                fontWeight: 600,
+                cursor: "pointer",
+                transition: "all 0.15s",
+                fontFamily: "inherit",
+              }}
+            >
+              Import…
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,17 @@
+/**
+ * Offscreen document used by the background worker on Chrome, where the
+ * service worker has no DOMParser. It only answers PARSE_GRADE_PAGE.
+ */
+
+import { parseGradePage } from "~lib/grade-tree";
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.type !== "PARSE_GRADE_PAGE") return;
+  sendResponse(parseGradePage(message.html, message.wezId));
+});
+
+function Offscreen() {
+  return null;
+}
+
+export default Offscreen;
@@ -0,0 +1,18 @@
+import { fileURLToPath } from "node:url";
+
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same `~` imports as Plasmo
+    alias: [
+      {
+        find: /^~/,
+        replacement: fileURLToPath(new URL("./", import.meta.url)),
+      },
+    ],
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+});